@@ -21,6 +21,7 @@ export const COLORS = {
   player: '#ffcc00',
   enemy: '#ff3300',
   ally: '#33cc33',
+  neutral: '#3399ff',
     // UI
   uiBackground: 'rgba(0, 0, 0, 0.5)',
   uiText: '#ffffff',
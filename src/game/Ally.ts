@@ -0,0 +1,70 @@
+import Matter from 'matter-js';
+import Ship from './Ship';
+import { AICaptain, AI_BEHAVIOR_PROFILES, FormationType, getFormationOffset } from './ai';
+import { AIBehavior } from '../types';
+
+// An allied escort: a real ship whose AI captain keeps station on the player's ship
+// and fights whoever it is ordered to (or whoever fires on it)
+export default class Ally {
+    ship: Ship;
+    captain: AICaptain;
+    leader: Ship;              // Ship we are escorting
+    slot: number;              // Station in the formation (0 = closest to the leader)
+    orderedTarget: Ship | null = null; // Ship we've been told to engage
+
+    constructor(ship: Ship, leader: Ship, slot: number) {
+        this.ship = ship;
+        this.leader = leader;
+        this.slot = slot;
+        this.captain = new AICaptain(ship, AI_BEHAVIOR_PROFILES.escort);
+    }
+
+    get aiBehavior(): AIBehavior {
+        return this.captain.behavior.state;
+    }
+
+    get position(): { x: number; y: number } {
+        return this.ship.position;
+    }
+
+    get body(): Matter.Body {
+        return this.ship.body;
+    }
+
+    // Attack a ship (null to call off the attack and return to station)
+    engage(target: Ship | null): void {
+        this.orderedTarget = target;
+        if (target) {
+            this.captain.target = target;
+            this.captain.behavior.engage();
+        } else {
+            this.captain.behavior.standDown();
+        }
+    }
+
+    update(windDirection: number, windPower: number, formation: FormationType): void {
+        if (this.ship.isSunk()) return;
+
+        // The fight is over once the target has gone down
+        if (this.orderedTarget && this.orderedTarget.isSunk()) {
+            this.orderedTarget = null;
+        }
+        if (this.aiBehavior === AIBehavior.AGGRESSIVE && (!this.captain.target || this.captain.target.isSunk())) {
+            this.captain.behavior.standDown();
+        }
+
+        if (this.aiBehavior === AIBehavior.AGGRESSIVE || this.aiBehavior === AIBehavior.FLEEING || this.leader.isSunk()) {
+            // Fighting, running, or nobody left to escort: the captain decides
+            this.captain.update(windDirection);
+        } else {
+            this.captain.keepStation(this.leader, getFormationOffset(formation, this.slot), windDirection);
+        }
+
+        this.ship.applyWindForce(windDirection, windPower);
+        this.ship.update();
+    }
+
+    isAlive(): boolean {
+        return !this.ship.isSunk();
+    }
+}
@@ -0,0 +1,64 @@
+// Ammunition.ts - Stats for each type of cannon ammunition
+import { AmmoType } from '../types';
+
+export interface AmmoStats {
+    name: string;
+    damage: number;          // Damage dealt to the plank that is hit
+    radius: number;          // Cannonball radius
+    speedMultiplier: number; // Multiplier on the cannon's muzzle speed
+    color: string;           // Draw color
+    sailDamage: number;      // Damage (health and openness) dealt to the nearest sail
+    crewDamage: number;      // Damage dealt to anyone standing near the impact on deck
+    crewRadius: number;      // Radius (ship-local units) of the crew damage
+    burnDuration: number;    // Frames the hit plank burns for
+}
+
+export const AMMO_STATS: Record<AmmoType, AmmoStats> = {
+    [AmmoType.ROUND]: {
+        name: 'Round',
+        damage: 10,
+        radius: 5,
+        speedMultiplier: 1.0,
+        color: '#333333',
+        sailDamage: 0,
+        crewDamage: 0,
+        crewRadius: 0,
+        burnDuration: 0
+    },
+    [AmmoType.CHAIN]: {
+        name: 'Chain',
+        damage: 3,
+        radius: 6,
+        speedMultiplier: 0.9,
+        color: '#555555',
+        sailDamage: 25,
+        crewDamage: 0,
+        crewRadius: 0,
+        burnDuration: 0
+    },
+    [AmmoType.GRAPE]: {
+        name: 'Grape',
+        damage: 1,
+        radius: 3,
+        speedMultiplier: 0.6, // Light shot that falls short
+        color: '#777777',
+        sailDamage: 0,
+        crewDamage: 20,
+        crewRadius: 120,
+        burnDuration: 0
+    },
+    [AmmoType.HEATED]: {
+        name: 'Heated',
+        damage: 8,
+        radius: 5,
+        speedMultiplier: 1.0,
+        color: '#ff6600',
+        sailDamage: 0,
+        crewDamage: 0,
+        crewRadius: 0,
+        burnDuration: 600 // 10 seconds at 60fps
+    }
+};
+
+// Order ammo types are listed in on the HUD
+export const AMMO_ORDER: AmmoType[] = [AmmoType.ROUND, AmmoType.CHAIN, AmmoType.GRAPE, AmmoType.HEATED];
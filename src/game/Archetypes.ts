@@ -0,0 +1,239 @@
+// Archetypes.ts - Enemy ship designs, and how spawning picks between them
+import { EnemyType } from './ai';
+import { Faction } from '../types';
+
+// Every hull has the brigantine's bow, stern and deck plan, with a longer or shorter waist and a wider or
+// narrower beam; they also differ in handling, toughness and paint
+export type HullType = 'sloop' | 'brigantine' | 'frigate' | 'ghost';
+
+export interface HullStats {
+    name: string;
+    length: number;       // Length of the straight waist between bow and stern
+    beam: number;         // Width of the hull
+    speed: number;        // Multiplier on the thrust the sails give
+    damageTaken: number;  // Multiplier on damage from shot and ramming
+    hullColor: string;    // Deck and hull fill
+    trimColor: string;    // Gunwale outline
+}
+
+export const HULL_STATS: Record<HullType, HullStats> = {
+    // Light and quick, but her planking won't stand much
+    sloop: {
+        name: 'Sloop',
+        length: 350,
+        beam: 180,
+        speed: 1.25,
+        damageTaken: 1.3,
+        hullColor: '#DEC29B',
+        trimColor: '#8B4513'
+    },
+    brigantine: {
+        name: 'Brigantine',
+        length: 450,
+        beam: 180,
+        speed: 1,
+        damageTaken: 1,
+        hullColor: '#D2B48C',
+        trimColor: '#8B4513'
+    },
+    // Heavy oak sides: slow, and very hard to hole
+    frigate: {
+        name: 'Frigate',
+        length: 570,
+        beam: 210,
+        speed: 0.85,
+        damageTaken: 0.7,
+        hullColor: '#A0785A',
+        trimColor: '#5C3317'
+    },
+    // Rotten timbers held together by something other than nails
+    ghost: {
+        name: 'Ghost Ship',
+        length: 450,
+        beam: 180,
+        speed: 1.15,
+        damageTaken: 0.8,
+        hullColor: 'rgba(170, 200, 185, 0.6)',
+        trimColor: '#3f5f52'
+    }
+};
+
+export type LoadoutType = 'light' | 'standard' | 'heavy';
+
+// Modules fitted to a ship, in ship-local coordinates. Ids are handed out in order
+// (wheel, sail1, sail2, ..., cannon1, cannon2, ...).
+export interface ModuleLoadout {
+    wheel: { x: number, y: number };
+    sails: Array<{ x: number, y: number }>;
+    cannons: Array<{ x: number, y: number, rotation: number }>; // rotation π = starboard, 0 = port
+}
+
+export const LOADOUTS: Record<LoadoutType, ModuleLoadout> = {
+    // Two masts and two guns a side
+    light: {
+        wheel: { x: -50, y: 0 },
+        sails: [{ x: 165, y: 0 }, { x: -135, y: 0 }],
+        cannons: [
+            { x: -35, y: 75, rotation: Math.PI },
+            { x: 65, y: 75, rotation: Math.PI },
+            { x: -35, y: -75, rotation: 0 },
+            { x: 65, y: -75, rotation: 0 }
+        ]
+    },
+    // The player's own fit: three masts and three guns a side
+    standard: {
+        wheel: { x: -50, y: 0 },
+        sails: [{ x: 165, y: 0 }, { x: -35, y: 0 }, { x: -235, y: 0 }],
+        cannons: [
+            { x: -35, y: 75, rotation: Math.PI },
+            { x: 65, y: 75, rotation: Math.PI },
+            { x: -135, y: 75, rotation: Math.PI },
+            { x: -35, y: -75, rotation: 0 },
+            { x: 65, y: -75, rotation: 0 },
+            { x: -135, y: -75, rotation: 0 }
+        ]
+    },
+    // Three masts and four guns a side, the extra pair well forward
+    heavy: {
+        wheel: { x: -50, y: 0 },
+        sails: [{ x: 165, y: 0 }, { x: -35, y: 0 }, { x: -235, y: 0 }],
+        cannons: [
+            { x: -35, y: 75, rotation: Math.PI },
+            { x: 65, y: 75, rotation: Math.PI },
+            { x: -135, y: 75, rotation: Math.PI },
+            { x: 165, y: 75, rotation: Math.PI },
+            { x: -35, y: -75, rotation: 0 },
+            { x: 65, y: -75, rotation: 0 },
+            { x: -135, y: -75, rotation: 0 },
+            { x: 165, y: -75, rotation: 0 }
+        ]
+    }
+};
+
+export type ArchetypeId = 'sloopRaider' | 'navyCutter' | 'pirateBrigantine' | 'navyFrigate' | 'ghostShip';
+
+export interface EnemyArchetype {
+    name: string;
+    tier: number;         // 1 (weakest) to MAX_TIER
+    faction: Faction;
+    hull: HullType;
+    loadout: LoadoutType;
+    behavior: EnemyType;  // How aggressively the captain sails her
+    accuracy: number;     // 0-1: how closely the guns are laid on the target (1 = dead on)
+    reactionTime: number; // Frames before the captain responds to a new target or threat
+}
+
+export const ENEMY_ARCHETYPES: Record<ArchetypeId, EnemyArchetype> = {
+    sloopRaider: {
+        name: 'Sloop Raider',
+        tier: 1,
+        faction: Faction.PIRATES,
+        hull: 'sloop',
+        loadout: 'light',
+        behavior: 'raider',
+        accuracy: 0.5,
+        reactionTime: 90
+    },
+    navyCutter: {
+        name: 'Navy Cutter',
+        tier: 1,
+        faction: Faction.NAVY,
+        hull: 'sloop',
+        loadout: 'light',
+        behavior: 'patrol',
+        accuracy: 0.65,
+        reactionTime: 60
+    },
+    pirateBrigantine: {
+        name: 'Pirate Brigantine',
+        tier: 2,
+        faction: Faction.PIRATES,
+        hull: 'brigantine',
+        loadout: 'standard',
+        behavior: 'raider',
+        accuracy: 0.7,
+        reactionTime: 45
+    },
+    navyFrigate: {
+        name: 'Navy Frigate',
+        tier: 3,
+        faction: Faction.NAVY,
+        hull: 'frigate',
+        loadout: 'heavy',
+        behavior: 'patrol',
+        accuracy: 0.9,
+        reactionTime: 30
+    },
+    ghostShip: {
+        name: 'Ghost Ship',
+        tier: 3,
+        faction: Faction.PIRATES,
+        hull: 'ghost',
+        loadout: 'standard',
+        behavior: 'ghost',
+        accuracy: 0.85,
+        reactionTime: 15
+    }
+};
+
+export const MAX_TIER = 3;
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export interface DifficultyStats {
+    name: string;
+    startingTier: number;    // Highest tier that can spawn before the player has sunk anything
+    sinkingsPerTier: number; // Ships the player must sink to unlock each further tier
+    enemyCount: number;      // Warships kept at sea
+    accuracyScale: number;   // Multiplier on every archetype's gunnery accuracy
+}
+
+export const DIFFICULTY_STATS: Record<Difficulty, DifficultyStats> = {
+    easy: {
+        name: 'Easy',
+        startingTier: 1,
+        sinkingsPerTier: 6,
+        enemyCount: 2,
+        accuracyScale: 0.8
+    },
+    normal: {
+        name: 'Normal',
+        startingTier: 1,
+        sinkingsPerTier: 4,
+        enemyCount: 3,
+        accuracyScale: 1
+    },
+    hard: {
+        name: 'Hard',
+        startingTier: 2,
+        sinkingsPerTier: 3,
+        enemyCount: 4,
+        accuracyScale: 1.1
+    }
+};
+
+// Highest archetype tier that can spawn, given the difficulty and how many ships the player has sunk
+export function getMaxTier(difficulty: Difficulty, shipsSunk: number): number {
+    const stats = DIFFICULTY_STATS[difficulty];
+    return Math.min(MAX_TIER, stats.startingTier + Math.floor(shipsSunk / stats.sinkingsPerTier));
+}
+
+// Pick an archetype to spawn. Anything up to the highest unlocked tier can appear,
+// with the newest tier twice as likely as the ones below it.
+export function chooseArchetype(difficulty: Difficulty, shipsSunk: number, random: () => number = Math.random): EnemyArchetype {
+    const maxTier = getMaxTier(difficulty, shipsSunk);
+    const candidates = Object.values(ENEMY_ARCHETYPES).filter(archetype => archetype.tier <= maxTier);
+    const weight = (archetype: EnemyArchetype) => archetype.tier === maxTier ? 2 : 1;
+
+    let roll = random() * candidates.reduce((sum, archetype) => sum + weight(archetype), 0);
+    for (const archetype of candidates) {
+        roll -= weight(archetype);
+        if (roll < 0) return archetype;
+    }
+    return candidates[candidates.length - 1];
+}
+
+// Parse a difficulty name (e.g. from the page URL), falling back to normal
+export function parseDifficulty(value: string | null): Difficulty {
+    return value !== null && value in DIFFICULTY_STATS ? value as Difficulty : 'normal';
+}
@@ -1,4 +1,8 @@
 import Matter from 'matter-js';
+import Ship from './Ship';
+import { AMMO_STATS } from './Ammunition';
+import { areAllied } from './Factions';
+import { AmmoType } from '../types';
 
 export default class Cannonball {
     position: { x: number; y: number };
@@ -9,31 +13,56 @@ export default class Cannonball {
     lifetime: number; // How long the cannonball exists (in frames)
     maxLifetime: number;
     damage: number;
-      constructor(x: number, y: number, angle: number, speed: number = 10) {
+    ammoType: AmmoType;
+    owner: Ship | null; // Ship that fired this cannonball (never hit by its own shots)
+    hasHit: boolean = false; // Set once the cannonball has struck something and should be removed
+    height: number;           // Height above the water
+    verticalVelocity: number; // Change in height per frame (positive = rising)
+    splashed: boolean = false; // Set once the cannonball has dropped into the sea
+    
+    // Downward acceleration on a cannonball in flight (per frame)
+    static readonly GRAVITY = 0.05;
+    // Height of the gun ports above the water, where every shot starts
+    static readonly MUZZLE_HEIGHT = 10;
+    // Anything lower than this can strike a hull (or come down on a deck)
+    static readonly HIT_HEIGHT = 30;
+    // Safety cap on flight time; shots normally end by hitting something or the water first
+    static readonly MAX_FLIGHT_TIME = 600;
+    
+    constructor(x: number, y: number, angle: number, speed: number = 10, owner: Ship | null = null, ammoType: AmmoType = AmmoType.ROUND, elevation: number = 0) {
+        const stats = AMMO_STATS[ammoType];
         this.position = { x, y };
         this.angle = angle;
-        this.radius = 5;
-        this.damage = 10;
+        this.radius = stats.radius;
+        this.damage = stats.damage;
+        this.ammoType = ammoType;
+        this.owner = owner;
+        
+        // Heavier or lighter loads leave the barrel at different speeds
+        speed *= stats.speedMultiplier;
+        
+        // Split the muzzle speed between travel across the water and climb
+        const horizontalSpeed = speed * Math.cos(elevation);
+        this.height = Cannonball.MUZZLE_HEIGHT;
+        this.verticalVelocity = speed * Math.sin(elevation);
         
         // Calculate velocity components - shift 90 degrees to the right
         const adjustedAngle = angle + Math.PI/2; // Add 90 degrees (π/2 radians) to shift right
         this.velocity = {
-            x: Math.cos(adjustedAngle) * speed,
-            y: Math.sin(adjustedAngle) * speed
+            x: Math.cos(adjustedAngle) * horizontalSpeed,
+            y: Math.sin(adjustedAngle) * horizontalSpeed
         };
         
         // Create physics body
         this.body = Matter.Bodies.circle(x, y, this.radius, {
             label: 'cannonball',
-            frictionAir: 0.001,
+            frictionAir: 0, // No drag, so flight matches Cannonball.predictRange
             friction: 0.1,
             restitution: 0.6,
             density: 0.1,
-            // Make cannonballs non-colliding with the ship that fired them
-            collisionFilter: {
-                category: 0x0008, // Cannonball category
-                mask: 0x0007 // Collide with everything except the firing ship
-            }
+            // Sensor so hits are resolved through collision events instead of pushing ships around
+            // (its collision filter is set when it is registered with the physics world)
+            isSensor: true
         });
         
         // Set initial velocity
@@ -41,7 +70,26 @@ export default class Cannonball {
         
         // Set lifetime
         this.lifetime = 0;
-        this.maxLifetime = 180; // 3 seconds at 60fps
+        this.maxLifetime = Cannonball.MAX_FLIGHT_TIME;
+    }
+    
+    // Horizontal distance a shot travels before reaching the water, stepping the
+    // same per-frame integration that update() uses
+    static predictRange(speed: number, elevation: number): number {
+        let height = Cannonball.MUZZLE_HEIGHT;
+        let verticalVelocity = speed * Math.sin(elevation);
+        let frames = 0;
+        while (height > 0 && frames < Cannonball.MAX_FLIGHT_TIME) {
+            height += verticalVelocity;
+            verticalVelocity -= Cannonball.GRAVITY;
+            frames++;
+        }
+        return speed * Math.cos(elevation) * frames;
+    }
+    
+    // Whether the shot is low enough to strike a ship
+    canHit(): boolean {
+        return this.height <= Cannonball.HIT_HEIGHT;
     }
     
     update(): boolean {
@@ -49,36 +97,114 @@ export default class Cannonball {
         this.position.x = this.body.position.x;
         this.position.y = this.body.position.y;
         
+        // Rise and fall under gravity
+        this.height += this.verticalVelocity;
+        this.verticalVelocity -= Cannonball.GRAVITY;
+        if (this.height <= 0 && !this.hasHit) {
+            this.height = 0;
+            this.splashed = true;
+        }
+        
         // Update lifetime
         this.lifetime++;
         
         // Return true if cannonball is still alive, false if it should be removed
-        return this.lifetime < this.maxLifetime;
+        return !this.hasHit && !this.splashed && this.lifetime < this.maxLifetime;
     }
     
     draw(ctx: CanvasRenderingContext2D): void {
         ctx.save();
         
-        // Draw cannonball
-        ctx.fillStyle = '#333333';
+        // Draw shadow on the water directly below the ball; it shrinks and fades as the ball climbs
+        const shadowScale = Math.max(0.4, 1 - this.height / 200);
+        ctx.fillStyle = `rgba(0, 0, 0, ${(0.3 * shadowScale).toFixed(2)})`;
         ctx.beginPath();
-        ctx.arc(this.position.x, this.position.y, this.radius, 0, Math.PI * 2);
+        ctx.arc(this.position.x, this.position.y, this.radius * shadowScale, 0, Math.PI * 2);
         ctx.fill();
         
-        // Draw shadow
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-        ctx.beginPath();
-        ctx.arc(this.position.x + 2, this.position.y + 2, this.radius, 0, Math.PI * 2);
-        ctx.fill();
+        // Draw the ball itself raised above its shadow, and larger the higher it flies
+        ctx.translate(this.position.x, this.position.y - this.height * 0.5);
+        const heightScale = 1 + this.height / 200;
+        ctx.scale(heightScale, heightScale);
+        ctx.translate(-this.position.x, -this.position.y);
+        
+        // Draw cannonball
+        ctx.fillStyle = AMMO_STATS[this.ammoType].color;
+        if (this.ammoType === AmmoType.CHAIN) {
+            // Two balls joined by a chain, spinning in flight
+            const spin = this.lifetime * 0.3;
+            const offsetX = Math.cos(spin) * this.radius * 1.5;
+            const offsetY = Math.sin(spin) * this.radius * 1.5;
+            ctx.strokeStyle = '#222222';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.moveTo(this.position.x - offsetX, this.position.y - offsetY);
+            ctx.lineTo(this.position.x + offsetX, this.position.y + offsetY);
+            ctx.stroke();
+            ctx.beginPath();
+            ctx.arc(this.position.x - offsetX, this.position.y - offsetY, this.radius * 0.6, 0, Math.PI * 2);
+            ctx.arc(this.position.x + offsetX, this.position.y + offsetY, this.radius * 0.6, 0, Math.PI * 2);
+            ctx.fill();
+        } else if (this.ammoType === AmmoType.GRAPE) {
+            // A loose cluster of small shot
+            for (let i = 0; i < 5; i++) {
+                const spread = (i / 5) * Math.PI * 2;
+                ctx.beginPath();
+                ctx.arc(
+                    this.position.x + Math.cos(spread) * this.radius * 1.5,
+                    this.position.y + Math.sin(spread) * this.radius * 1.5,
+                    this.radius, 0, Math.PI * 2
+                );
+                ctx.fill();
+            }
+        } else {
+            ctx.beginPath();
+            ctx.arc(this.position.x, this.position.y, this.radius, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        
+        // Heated shot glows
+        if (this.ammoType === AmmoType.HEATED) {
+            ctx.fillStyle = 'rgba(255, 200, 0, 0.4)';
+            ctx.beginPath();
+            ctx.arc(this.position.x, this.position.y, this.radius * 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
         
         ctx.restore();
     }
     
+    // Over an island: a shot low enough to reach the ground buries itself in the shore.
+    // Returns true if it did.
+    strikeShore(): boolean {
+        if (this.hasHit || !this.canHit()) return false;
+        this.hasHit = true;
+        return true;
+    }
+    
     // Handle collision with other objects
     handleCollision(other: any): void {
-        // If the other object is a ship or enemy, apply damage
-        if (other.health !== undefined) {
+        // Each cannonball can only hit once, never the ship that fired it, and only once it is low enough
+        if (this.hasHit || other === this.owner || !this.canHit()) {
+            return;
+        }
+        
+        // Shots fly harmlessly past ships allied to the one that fired them
+        if (other instanceof Ship && this.owner && areAllied(this.owner.faction, other.faction)) {
+            return;
+        }
+        
+        if (other instanceof Ship) {
+            // Ships take damage on the plank nearest to the impact point
+            other.handleCannonballHit(this.position.x, this.position.y, this.damage, this.ammoType, this.owner);
+        } else if (other.health !== undefined) {
+            // If the other object is an enemy or other damageable entity, apply damage
             other.takeDamage(this.damage);
+        } else {
+            // Not something we can damage
+            return;
         }
+        
+        this.hasHit = true;
     }
 }
\ No newline at end of file
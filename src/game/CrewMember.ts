@@ -0,0 +1,158 @@
+import Ship from './Ship';
+import { CrewStation } from '../types';
+
+// Anything a sailor can cross cutlasses with
+export interface CrewOpponent {
+    position: { x: number; y: number };
+    takeDamage(amount: number): void;
+    isAlive(): boolean;
+}
+
+// An NPC sailor standing on a ship's deck. Walks the deck under the same
+// rules as the player and fights anyone serving another ship.
+export default class CrewMember implements CrewOpponent {
+    allegiance: Ship;     // Ship this sailor serves
+    ship: Ship;           // Ship whose deck they are standing on
+    localPosition: { x: number; y: number }; // Position in the deck's local coordinates, so they ride with the ship
+    health: number;
+    maxHealth: number = 60;
+    facing: number = 0;   // World angle they are facing
+    seizedModuleId: string | null = null; // Module of `ship` this sailor has taken over, if any
+    station: CrewStation = CrewStation.IDLE; // Job aboard their own ship
+    cannonId: string | null = null;          // Cannon a gunner works
+
+    private strikeCooldown: number = 0;
+
+    static readonly RADIUS = 12;
+    static readonly MOVE_SPEED = 3;      // A little slower than the player
+    static readonly STRIKE_RANGE = 40;
+    static readonly STRIKE_DAMAGE = 8;
+    static readonly STRIKE_INTERVAL = 45; // Frames between cutlass strikes
+
+    constructor(allegiance: Ship, ship: Ship, worldX: number, worldY: number) {
+        this.allegiance = allegiance;
+        this.ship = ship;
+        this.localPosition = ship.worldToLocal(worldX, worldY);
+        this.health = this.maxHealth;
+    }
+
+    get position(): { x: number; y: number } {
+        return this.ship.localToWorld(this.localPosition.x, this.localPosition.y);
+    }
+
+    // Whether someone on this deck is on the other side
+    isHostileTo(other: CrewMember): boolean {
+        return other.allegiance !== this.allegiance;
+    }
+
+    update(): void {
+        if (this.strikeCooldown > 0) {
+            this.strikeCooldown--;
+        }
+    }
+
+    // Take one step toward a world position, sliding along anything in the way like the player does.
+    // Returns true once there.
+    walkToward(worldX: number, worldY: number): boolean {
+        const position = this.position;
+        const dx = worldX - position.x;
+        const dy = worldY - position.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance < CrewMember.MOVE_SPEED) return true;
+
+        this.facing = Math.atan2(dy, dx);
+        const moveX = dx / distance * CrewMember.MOVE_SPEED;
+        const moveY = dy / distance * CrewMember.MOVE_SPEED;
+
+        if (this.ship.isPositionOnDeck(position.x + moveX, position.y + moveY)) {
+            this.moveTo(position.x + moveX, position.y + moveY);
+        } else {
+            // Try each axis on its own to slide along the obstacle
+            if (this.ship.isPositionOnDeck(position.x + moveX, position.y)) {
+                this.moveTo(position.x + moveX, position.y);
+            }
+            const current = this.position;
+            if (this.ship.isPositionOnDeck(current.x, current.y + moveY)) {
+                this.moveTo(current.x, current.y + moveY);
+            }
+        }
+        return false;
+    }
+
+    // Stand at a fixed spot on deck (e.g. behind the wheel), ignoring deck obstacles
+    standAt(localX: number, localY: number): void {
+        this.localPosition = { x: localX, y: localY };
+    }
+
+    // Swing at an opponent if they are in reach and the cutlass is ready. Returns true if the blow landed.
+    strike(opponent: CrewOpponent): boolean {
+        if (this.strikeCooldown > 0 || !opponent.isAlive()) return false;
+
+        const position = this.position;
+        const dx = opponent.position.x - position.x;
+        const dy = opponent.position.y - position.y;
+        this.facing = Math.atan2(dy, dx);
+        if (dx * dx + dy * dy > CrewMember.STRIKE_RANGE * CrewMember.STRIKE_RANGE) return false;
+
+        opponent.takeDamage(CrewMember.STRIKE_DAMAGE);
+        this.strikeCooldown = CrewMember.STRIKE_INTERVAL;
+        return true;
+    }
+
+    takeDamage(amount: number): void {
+        this.health = Math.max(0, this.health - amount);
+    }
+
+    isAlive(): boolean {
+        return this.health > 0;
+    }
+
+    draw(ctx: CanvasRenderingContext2D): void {
+        const position = this.position;
+        ctx.save();
+        ctx.translate(position.x, position.y);
+
+        // Body, with a sash in the colours of the ship they serve
+        ctx.fillStyle = '#d2a679';
+        ctx.beginPath();
+        ctx.arc(0, 0, CrewMember.RADIUS, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = this.allegiance.flagColor ?? '#ffcc00';
+        ctx.lineWidth = 4;
+        ctx.stroke();
+
+        // Cutlass pointing the way they face, drawn back while recovering from a strike
+        const swing = this.strikeCooldown > CrewMember.STRIKE_INTERVAL - 10 ? 0.8 : 0;
+        ctx.rotate(this.facing + swing);
+        ctx.strokeStyle = '#c0c0c0';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(CrewMember.RADIUS, 0);
+        ctx.lineTo(CrewMember.RADIUS + 18, 0);
+        ctx.stroke();
+        ctx.rotate(-(this.facing + swing));
+
+        // Letter for their job, so the player can tell their hands apart
+        if (this.station !== CrewStation.IDLE) {
+            ctx.fillStyle = '#ffffff';
+            ctx.font = 'bold 12px Arial';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(this.station.charAt(0).toUpperCase(), 0, 0);
+        }
+
+        // Health bar once wounded
+        if (this.health < this.maxHealth) {
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+            ctx.fillRect(-15, -CrewMember.RADIUS - 10, 30, 4);
+            ctx.fillStyle = '#ff3300';
+            ctx.fillRect(-15, -CrewMember.RADIUS - 10, 30 * (this.health / this.maxHealth), 4);
+        }
+
+        ctx.restore();
+    }
+
+    private moveTo(worldX: number, worldY: number): void {
+        this.localPosition = this.ship.worldToLocal(worldX, worldY);
+    }
+}
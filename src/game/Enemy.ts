@@ -1,59 +1,58 @@
 import Matter from 'matter-js';
+import Ship from './Ship';
+import { AICaptain, AI_BEHAVIOR_PROFILES, EnemyType } from './ai';
+import { EnemyArchetype } from './Archetypes';
+import { AIBehavior } from '../types';
 
+// An enemy vessel: a real ship sailed by an AI captain
 export default class Enemy {
-    position: { x: number; y: number };
-    health: number;
-    speed: number;
-    aiBehavior: string;
-    body: Matter.Body;
-
-    constructor(x: number, y: number, health: number, speed: number, aiBehavior: string) {
-        this.position = { x, y };
-        this.health = health;
-        this.speed = speed;
-        this.aiBehavior = aiBehavior;
-        this.body = Matter.Bodies.circle(x, y, 15, {
-            label: 'enemy',
-            density: 0.002,
-            frictionAir: 0.05
-        });
-    }
-
-    moveTowards(targetX: number, targetY: number): void {
-        // Calculate direction towards target
-        const dx = targetX - this.position.x;
-        const dy = targetY - this.position.y;
-        
-        // Normalize the direction
-        const length = Math.sqrt(dx * dx + dy * dy);
-        if (length > 0) {
-            const normalizedDx = dx / length;
-            const normalizedDy = dy / length;
-            
-            // Move in the direction of the target
-            this.position.x += normalizedDx * this.speed;
-            this.position.y += normalizedDy * this.speed;
-            
-            // Update the physics body position
-            Matter.Body.setPosition(this.body, {
-                x: this.position.x,
-                y: this.position.y
-            });
-        }
-    }
-
-    attack() {
-        // Implement attack logic
+    ship: Ship;
+    captain: AICaptain;
+    type: EnemyType;
+    archetype: EnemyArchetype; // Design she was built and crewed to
+
+    // accuracyScale comes from the difficulty, and scales the archetype's gunnery accuracy
+    constructor(ship: Ship, archetype: EnemyArchetype, accuracyScale: number = 1) {
+        this.ship = ship;
+        this.archetype = archetype;
+        this.type = archetype.behavior;
+        // Each enemy type has its own behaviour thresholds, and each archetype its own gun crews
+        this.captain = new AICaptain(ship, AI_BEHAVIOR_PROFILES[this.type]);
+        this.captain.accuracy = Math.min(1, archetype.accuracy * accuracyScale);
+        this.captain.reactionTime = archetype.reactionTime;
+    }
+
+    // Current state of the captain's behaviour state machine
+    get aiBehavior(): AIBehavior {
+        return this.captain.behavior.state;
+    }
+
+    get position(): { x: number; y: number } {
+        return this.ship.position;
+    }
+
+    get health(): number {
+        return this.ship.health;
+    }
+
+    get body(): Matter.Body {
+        return this.ship.body;
+    }
+
+    // Sail the ship for one frame: the captain gives orders, then wind and physics move the ship
+    update(windDirection: number, windPower: number): void {
+        if (this.ship.isSunk()) return;
+
+        this.captain.update(windDirection);
+        this.ship.applyWindForce(windDirection, windPower);
+        this.ship.update();
     }
 
     takeDamage(amount: number) {
-        this.health -= amount;
-        if (this.health <= 0) {
-            this.die();
-        }
+        this.ship.takeDamage(amount);
     }
 
-    die() {
-        // Handle enemy death
+    isAlive(): boolean {
+        return !this.ship.isSunk();
     }
-}
\ No newline at end of file
+}
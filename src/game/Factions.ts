@@ -0,0 +1,203 @@
+// Factions.ts - Who sails for whom, how the factions get along, and where the player stands with each
+import { Faction } from '../types';
+import { COLORS } from '../assets/colors';
+
+export interface FactionStats {
+    name: string;        // Shown on the HUD
+    shipName: string;    // What one of their ships is called in messages
+    flagColor: string;   // Field of the flag flown at the stern
+    emblemColor: string; // Device in the middle of the flag
+    sailColor: string;   // Sailcloth
+}
+
+export const FACTION_STATS: Record<Faction, FactionStats> = {
+    [Faction.PLAYER]: {
+        name: 'Your Flotilla',
+        shipName: 'Allied ship',
+        flagColor: COLORS.player,
+        emblemColor: COLORS.ally,
+        sailColor: 'rgba(255,255,255,0.8)'
+    },
+    [Faction.NAVY]: {
+        name: 'Navy',
+        shipName: 'Navy ship',
+        flagColor: '#1f3f99',
+        emblemColor: '#ffffff',
+        sailColor: 'rgba(255,255,255,0.85)'
+    },
+    [Faction.PIRATES]: {
+        name: 'Pirates',
+        shipName: 'Pirate ship',
+        flagColor: '#1a1a1a',
+        emblemColor: '#ffffff',
+        sailColor: 'rgba(70,60,55,0.85)'
+    },
+    [Faction.MERCHANTS]: {
+        name: 'Merchants',
+        shipName: 'Merchant ship',
+        flagColor: COLORS.neutral,
+        emblemColor: '#ffcc00',
+        sailColor: 'rgba(240,225,190,0.85)'
+    },
+    [Faction.NATIVES]: {
+        name: 'Natives',
+        shipName: 'Native ship',
+        flagColor: '#2e8b57',
+        emblemColor: COLORS.sand,
+        sailColor: 'rgba(200,160,100,0.85)'
+    }
+};
+
+// Factions the player has a reputation with, in the order the HUD lists them
+export const REPUTATION_FACTIONS: Faction[] = [Faction.NAVY, Faction.PIRATES, Faction.MERCHANTS, Faction.NATIVES];
+
+// Allied ships never fire on each other, neutral ones leave each other alone, hostile ones fight on sight
+export type FactionStance = 'allied' | 'neutral' | 'hostile';
+
+// How each faction regards the others. The player's row and column are only used
+// between the player and themselves; everyone else's stance toward the player
+// comes from the player's reputation with them.
+export const FACTION_STANCES: Record<Faction, Record<Faction, FactionStance>> = {
+    [Faction.PLAYER]: {
+        [Faction.PLAYER]: 'allied',
+        [Faction.NAVY]: 'neutral',
+        [Faction.PIRATES]: 'neutral',
+        [Faction.MERCHANTS]: 'neutral',
+        [Faction.NATIVES]: 'neutral'
+    },
+    [Faction.NAVY]: {
+        [Faction.PLAYER]: 'neutral',
+        [Faction.NAVY]: 'allied',
+        [Faction.PIRATES]: 'hostile',
+        [Faction.MERCHANTS]: 'allied',
+        [Faction.NATIVES]: 'neutral'
+    },
+    [Faction.PIRATES]: {
+        [Faction.PLAYER]: 'neutral',
+        [Faction.NAVY]: 'hostile',
+        [Faction.PIRATES]: 'allied',
+        [Faction.MERCHANTS]: 'hostile',
+        [Faction.NATIVES]: 'hostile'
+    },
+    [Faction.MERCHANTS]: {
+        [Faction.PLAYER]: 'neutral',
+        [Faction.NAVY]: 'allied',
+        [Faction.PIRATES]: 'hostile',
+        [Faction.MERCHANTS]: 'allied',
+        [Faction.NATIVES]: 'neutral'
+    },
+    [Faction.NATIVES]: {
+        [Faction.PLAYER]: 'neutral',
+        [Faction.NAVY]: 'neutral',
+        [Faction.PIRATES]: 'hostile',
+        [Faction.MERCHANTS]: 'neutral',
+        [Faction.NATIVES]: 'allied'
+    }
+};
+
+// Where the player stands with each faction at the start (-100 to 100)
+const STARTING_REPUTATION: Record<Faction, number> = {
+    [Faction.PLAYER]: 100,
+    [Faction.NAVY]: 0,
+    [Faction.PIRATES]: -50,
+    [Faction.MERCHANTS]: 10,
+    [Faction.NATIVES]: 0
+};
+
+// Whether shots from one faction pass harmlessly by the other's ships.
+// The player is never allied with anyone but their own flotilla.
+export function areAllied(a: Faction, b: Faction): boolean {
+    if (a === b) return true;
+    if (a === Faction.PLAYER || b === Faction.PLAYER) return false;
+    return FACTION_STANCES[a][b] === 'allied';
+}
+
+export type ReputationListener = (faction: Faction, reputation: number, previousReputation: number) => void;
+
+// The player's reputation with each faction, and the stances that follow from it
+export class FactionRelations {
+    private reputation: Record<Faction, number> = { ...STARTING_REPUTATION };
+    private listeners: ReputationListener[] = [];
+
+    static readonly MIN_REPUTATION = -100;
+    static readonly MAX_REPUTATION = 100;
+    // At or below this a faction treats the player as an enemy
+    static readonly HOSTILE_REPUTATION = -25;
+
+    // Lost for each shot landed on a ship whose faction isn't already hostile
+    private static readonly ATTACK_PENALTY = 1;
+    // Lost with a faction for sinking or taking one of its ships
+    private static readonly SINK_PENALTY = 20;
+    private static readonly CAPTURE_PENALTY = 10;
+    // Gained with the victim's enemies (and lost with its allies) for sinking or taking one of its ships
+    private static readonly SINK_REWARD = 10;
+    private static readonly CAPTURE_REWARD = 5;
+
+    getReputation(faction: Faction): number {
+        return this.reputation[faction];
+    }
+
+    // How faction `a` regards faction `b`
+    getStance(a: Faction, b: Faction): FactionStance {
+        if (areAllied(a, b)) return 'allied';
+        if (a === Faction.PLAYER || b === Faction.PLAYER) {
+            const other = a === Faction.PLAYER ? b : a;
+            return this.reputation[other] <= FactionRelations.HOSTILE_REPUTATION ? 'hostile' : 'neutral';
+        }
+        return FACTION_STANCES[a][b];
+    }
+
+    isHostile(a: Faction, b: Faction): boolean {
+        return this.getStance(a, b) === 'hostile';
+    }
+
+    // Get notified whenever the player's reputation with a faction changes (returns an unsubscribe function)
+    onReputationChange(listener: ReputationListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    // The player landed a shot on one of this faction's ships
+    recordAttack(victim: Faction): void {
+        // Firing on people who are already your enemies costs nothing more
+        if (this.isHostile(victim, Faction.PLAYER)) return;
+        this.adjust(victim, -FactionRelations.ATTACK_PENALTY);
+    }
+
+    // The player sank one of this faction's ships
+    recordSinking(victim: Faction): void {
+        this.settleScores(victim, FactionRelations.SINK_PENALTY, FactionRelations.SINK_REWARD);
+    }
+
+    // The player forced one of this faction's ships to surrender
+    recordCapture(victim: Faction): void {
+        this.settleScores(victim, FactionRelations.CAPTURE_PENALTY, FactionRelations.CAPTURE_REWARD);
+    }
+
+    // The victim's faction holds it against the player; everyone else takes sides as the matrix says
+    private settleScores(victim: Faction, penalty: number, reward: number): void {
+        if (victim === Faction.PLAYER) return;
+        this.adjust(victim, -penalty);
+
+        for (const faction of REPUTATION_FACTIONS) {
+            if (faction === victim) continue;
+            const stance = FACTION_STANCES[faction][victim];
+            if (stance === 'hostile') {
+                this.adjust(faction, reward);
+            } else if (stance === 'allied') {
+                this.adjust(faction, -reward);
+            }
+        }
+    }
+
+    private adjust(faction: Faction, delta: number): void {
+        const previous = this.reputation[faction];
+        const reputation = Math.max(FactionRelations.MIN_REPUTATION, Math.min(FactionRelations.MAX_REPUTATION, previous + delta));
+        if (reputation === previous) return;
+
+        this.reputation[faction] = reputation;
+        this.listeners.forEach(listener => listener(faction, reputation, previous));
+    }
+}
@@ -0,0 +1,145 @@
+import { Inventory } from '../types';
+
+export type FlotsamKind = 'debris' | 'crate';
+
+// Floating wreckage and loot left behind by a destroyed ship.
+// Drifts with the wind until someone sails or swims into it.
+export default class Flotsam {
+    kind: FlotsamKind;
+    position: { x: number; y: number };
+    velocity: { x: number; y: number };
+    angle: number;
+    spin: number;        // Rotation per frame while drifting
+    radius: number;      // Pickup radius
+    contents: Inventory; // What the finder gets
+    lifetime: number;    // How long the flotsam has been floating (in frames)
+    maxLifetime: number;
+    collected: boolean = false;
+
+    // Fraction of the wind speed that floating objects drift at
+    private static readonly DRIFT_FACTOR = 0.3;
+    // How quickly drift velocity adjusts to the wind (0-1 per frame)
+    private static readonly DRIFT_RESPONSE = 0.02;
+
+    constructor(x: number, y: number, kind: FlotsamKind, contents: Inventory) {
+        this.kind = kind;
+        this.position = { x, y };
+        this.contents = contents;
+        this.angle = Math.random() * Math.PI * 2;
+        this.spin = (Math.random() - 0.5) * 0.02;
+        this.radius = kind === 'crate' ? 20 : 15;
+        this.lifetime = 0;
+        this.maxLifetime = kind === 'crate' ? 7200 : 3600; // Crates float for 2 minutes, debris for 1
+
+        // Thrown outward from the wreck
+        const direction = Math.random() * Math.PI * 2;
+        const speed = 0.5 + Math.random() * 1.5;
+        this.velocity = {
+            x: Math.cos(direction) * speed,
+            y: Math.sin(direction) * speed
+        };
+    }
+
+    // Scatter debris and a few loot crates around a wreck site
+    static scatter(x: number, y: number, debrisCount: number, crateCount: number): Flotsam[] {
+        const pieces: Flotsam[] = [];
+        const spawn = (kind: FlotsamKind, contents: Inventory) => {
+            const distance = Math.random() * 250;
+            const direction = Math.random() * Math.PI * 2;
+            pieces.push(new Flotsam(
+                x + Math.cos(direction) * distance,
+                y + Math.sin(direction) * distance,
+                kind,
+                contents
+            ));
+        };
+
+        for (let i = 0; i < debrisCount; i++) {
+            spawn('debris', { wood: 1 + Math.floor(Math.random() * 3), gold: 0 });
+        }
+        for (let i = 0; i < crateCount; i++) {
+            spawn('crate', { wood: 5 + Math.floor(Math.random() * 6), gold: 10 + Math.floor(Math.random() * 41) });
+        }
+
+        return pieces;
+    }
+
+    // Crates holding a ship's cargo, shared out evenly, dumped over the side at a spot
+    static jettison(x: number, y: number, cargo: Inventory, crateCount: number): Flotsam[] {
+        const pieces: Flotsam[] = [];
+        for (let i = 0; i < crateCount; i++) {
+            // The last crate takes whatever doesn't divide evenly
+            const share = (amount: number) => i < crateCount - 1
+                ? Math.floor(amount / crateCount)
+                : amount - Math.floor(amount / crateCount) * (crateCount - 1);
+            const direction = Math.random() * Math.PI * 2;
+            const distance = 100 + Math.random() * 100;
+            pieces.push(new Flotsam(
+                x + Math.cos(direction) * distance,
+                y + Math.sin(direction) * distance,
+                'crate',
+                { wood: share(cargo.wood), gold: share(cargo.gold) }
+            ));
+        }
+        return pieces;
+    }
+
+    update(windDirection: number, windPower: number): boolean {
+        // Ease toward drifting downwind (wind direction is where the wind blows towards)
+        const targetX = Math.cos(windDirection) * windPower * Flotsam.DRIFT_FACTOR;
+        const targetY = Math.sin(windDirection) * windPower * Flotsam.DRIFT_FACTOR;
+        this.velocity.x += (targetX - this.velocity.x) * Flotsam.DRIFT_RESPONSE;
+        this.velocity.y += (targetY - this.velocity.y) * Flotsam.DRIFT_RESPONSE;
+
+        this.position.x += this.velocity.x;
+        this.position.y += this.velocity.y;
+        this.angle += this.spin;
+
+        // Update lifetime
+        this.lifetime++;
+
+        // Return true if still floating, false if it should be removed
+        return !this.collected && this.lifetime < this.maxLifetime;
+    }
+
+    // Whether a point (e.g. a swimmer or a point on a hull) is close enough to grab this
+    isWithinReach(x: number, y: number, reach: number = 0): boolean {
+        const dx = x - this.position.x;
+        const dy = y - this.position.y;
+        const range = this.radius + reach;
+        return dx * dx + dy * dy < range * range;
+    }
+
+    draw(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+
+        // Fade out over the last quarter of its lifetime
+        const fadeStart = this.maxLifetime * 0.75;
+        ctx.globalAlpha = this.lifetime > fadeStart
+            ? 1 - (this.lifetime - fadeStart) / (this.maxLifetime - fadeStart)
+            : 1;
+
+        ctx.rotate(this.angle);
+        if (this.kind === 'crate') {
+            // Wooden crate with banding
+            ctx.fillStyle = '#A0522D';
+            ctx.strokeStyle = '#5C3317';
+            ctx.lineWidth = 2;
+            ctx.fillRect(-12, -12, 24, 24);
+            ctx.strokeRect(-12, -12, 24, 24);
+            ctx.beginPath();
+            ctx.moveTo(-12, -12);
+            ctx.lineTo(12, 12);
+            ctx.moveTo(12, -12);
+            ctx.lineTo(-12, 12);
+            ctx.stroke();
+        } else {
+            // Broken plank
+            ctx.fillStyle = '#8B4513';
+            ctx.fillRect(-20, -4, 40, 8);
+        }
+
+        ctx.restore();
+    }
+}
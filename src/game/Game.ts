@@ -2,26 +2,99 @@
 // Fixed ship collision box alignment: The visual representation now matches the physics body with a 100px X-offset
 // Press 'G' to toggle walkable area test visualization and 'L' for debug info
 
-import Matter, { Engine } from 'matter-js';
+import Matter from 'matter-js';
 import Player from './Player';
 import Ship, { ShipModule } from './Ship';
 import Enemy from './Enemy';
-import WorldManager from './World';
+import Merchant from './Merchant';
+import Islander from './Islander';
+import Ally from './Ally';
+import WorldManager, { Chunk, Island, SavedShip, TradeRoute } from './World';
 import Cannonball from './Cannonball';
-import { CannonModule, SailModule, WheelModule } from './modules';
+import Wreck from './Wreck';
+import Flotsam from './Flotsam';
+import CrewMember, { CrewOpponent } from './CrewMember';
+import { ParticleSystem } from './ParticleSystem';
+import { AICaptain, BoardingParty, CREW_STATION_NAMES, FORMATION_NAMES, FORMATION_ORDER, FormationType, getFormationOffset, NavigationPlanner, ShipCrew } from './ai';
+import { AMMO_ORDER, AMMO_STATS } from './Ammunition';
+import { chooseArchetype, Difficulty, DIFFICULTY_STATS, EnemyArchetype, getMaxTier, HULL_STATS, HullType, LOADOUTS, LoadoutType, MAX_TIER, ModuleLoadout } from './Archetypes';
+import { FACTION_STATS, FactionRelations, REPUTATION_FACTIONS } from './Factions';
+import { BaseModule, Broadside, CannonModule, SailModule, WheelModule } from './modules';
+import { AmmoType, Faction, Inventory, SinkingStage } from '../types';
+import { UI_PRESETS } from '../assets/ui';
+import { PhysicsManager } from '../physics/PhysicsManager';
 
 export class Game {
-    private engine: Engine;
+    private physics: PhysicsManager; // The one physics world: every body in the game is registered with it
     private player: Player;
     private ship: Ship;
     private enemies: Enemy[] = [];
+    private merchants: Merchant[] = []; // Neutral traders sailing between the islands
+    private islanders: Islander[] = []; // Natives guarding the waters round their islands
+    private allies: Ally[] = []; // Escorts sailing in formation with the player
+    private formation: FormationType = 'line-ahead'; // Formation the escorts keep
+    private crew: ShipCrew; // Hired hands working stations aboard the player's ship
+    private markedTarget: Ship | null = null; // Ship the player's gunners fire at
+    private factions: FactionRelations = new FactionRelations(); // The player's standing with each faction
+    private difficulty: Difficulty; // Sets how tough the spawned warships are and how fast they get tougher
+    private shipsSunk: number = 0;  // Ships the player's flotilla has sent to the bottom
+    private reinforcementTimer: number = 0; // Frames until the next warship arrives to replace one that was lost
+    private lastFrameTime: number | null = null; // When the previous animation frame ran (ms)
+    private unsimulatedTime: number = 0;         // Real time not yet covered by a simulation step (ms)
     private world: WorldManager;
+    private spawnRandom: () => number; // Where ships turn up and what they carry, from the world seed
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
     private keysPressed: Set<string> = new Set();
     private playerOnShip: boolean = false;    private mousePosition: { x: number, y: number } = { x: 0, y: 0 };
     private screenMousePosition: { x: number, y: number } = { x: 0, y: 0 };
     private cannonballs: Cannonball[] = []; // Array to store active cannonballs
+    private wrecks: Wreck[] = []; // Remains of sunken ships
+    private sinkingListeners = new Map<Ship, () => void>(); // Unsubscribes from each AI ship's sinking, so it can be taken out of the game quietly
+    private flotsam: Flotsam[] = []; // Floating wreckage and loot crates
+    private particles: ParticleSystem = new ParticleSystem(); // Splashes and other short-lived effects
+    private boardingParties: BoardingParty[] = []; // Enemy crews fighting on the player's deck
+    private playerStrikeCooldown: number = 0; // Frames until the player can swing their cutlass again
+    private playerDownTimer: number = 0; // Frames until a cut-down player comes round (0 while they're on their feet)
+    private hudMessage: { text: string, color: string, expiresAt: number } | null = null; // Temporary banner message
+    private repairTargetPlank: number = -1; // Plank the player is currently repairing (-1 if none)
+    private repairTargetModule: BaseModule | null = null; // Module the player is currently repairing
+    private bailingAction: 'pump' | 'bucket' | null = null; // What the player is doing to remove water
+    private hudButtons: Array<{ x: number, y: number, width: number, height: number, onClick: () => void }> = []; // Clickable HUD areas, rebuilt every frame
+    
+    // Carpentry settings
+    private static readonly REPAIR_RANGE = 80;           // How close (ship-local units) the player must be to a plank
+    private static readonly BASE_REPAIR_RATE = 0.15;     // Plank health restored per frame at carpentry skill 1
+    private static readonly STATION_RANGE = 50;          // How close the player must be to take the wheel or a cannon
+    private static readonly MODULE_BAR_RANGE = 150;      // Module health bars show within this distance of the player
+    
+    // Collision damage settings
+    private static readonly RAM_MIN_SPEED = 1.5;         // Closing speed below which bumps do no damage
+    private static readonly RAM_DAMAGE_PER_SPEED = 6;    // Damage per unit of closing speed above the minimum
+    
+    private static readonly CARGO_CRATES = 4;            // Crates a merchant's cargo is dropped in
+    private static readonly ISLANDER_CHANCE = 0.5;       // Chance that natives guard an island
+    private static readonly ISLANDER_PATROL_OFFSET = 300; // How far off the coast the islanders patrol
+    private static readonly ISLANDER_PATROL_POINTS = 6;  // Points on the circuit round the island
+    private static readonly REINFORCEMENT_DELAY = 60 * 30; // Frames before a lost warship is replaced
+    private static readonly MAX_STEPS_PER_FRAME = 5;       // Simulation steps run to catch up after a stall before the rest is dropped
+    
+    // Escort settings
+    private static readonly ESCORT_COST = 100;           // Gold to hire an escort
+    private static readonly MAX_ESCORTS = 3;
+    private static readonly ENGAGE_COMMAND_RANGE = 800;  // How close to the cursor a ship must be to be picked as a target
+    
+    // Crew settings
+    private static readonly CREW_COST = 25;              // Gold to hire a hand
+    private static readonly MAX_CREW = 8;
+    private static readonly CREW_ORDER_RANGE = 120;      // How close a hand must be to the player to be given a station
+    
+    // Hand-to-hand combat settings
+    private static readonly PLAYER_STRIKE_RANGE = 45;    // How close a boarder must be to hit with the cutlass
+    private static readonly PLAYER_STRIKE_DAMAGE = 20;   // Damage per strike at combat skill 1
+    private static readonly PLAYER_STRIKE_INTERVAL = 30; // Frames between strikes
+    private static readonly PLAYER_DOWN_TIME = 300;      // Frames a cut-down player spends in the water before coming round
+    private static readonly PLAYER_REVIVE_HEALTH = 50;   // Health they come round with
     private rightMouseDown: boolean = false; // Track right mouse button state
     
     // Debug mode flags
@@ -37,8 +110,10 @@ export class Game {
         scale: 1
     };
 
-    constructor(engine: Engine) {
-        this.engine = engine;
+    // Leave out the seed for a new random world
+    constructor(physics: PhysicsManager, difficulty: Difficulty = 'normal', seed?: number) {
+        this.physics = physics;
+        this.difficulty = difficulty;
         this.canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
         this.ctx = this.canvas.getContext('2d') as CanvasRenderingContext2D;
         
@@ -50,19 +125,33 @@ export class Game {
         this.viewport.height = this.canvas.height;
 
         // Initialize world before creating entities
-        this.world = new WorldManager();
+        this.world = new WorldManager(physics, seed);
+        this.spawnRandom = this.world.getRandomStream('spawns');
         
         // Initialize player
-        this.player = new Player(400, 300);
+        const spawn = WorldManager.SPAWN_POINT;
+        this.player = new Player(spawn.x, spawn.y - 50);
         this.player.setOnShip(this.playerOnShip); // Sync the onShip property with Game's state
           // Initialize ship with brigantine dimensions
-        this.ship = new Ship(400, 350, 450, 180, 1);
+        this.ship = new Ship(spawn.x, spawn.y, HULL_STATS.brigantine.length, HULL_STATS.brigantine.beam, 1);
         
         // Connect ship with game for cannonball creation
         this.ship.setGame(this);
         
         // Add ship modules
-        this.addInitialShipModules();
+        this.addShipModules(this.ship, LOADOUTS.standard);
+        this.ship.setFaction(Faction.PLAYER);
+        this.crew = new ShipCrew(this.ship);
+        
+        // React to the ship flooding and going under
+        this.ship.onSinkingStageChange((stage, _previousStage, ship) => {
+            this.handleSinkingStageChange(ship, stage);
+        });
+        
+        // Tell the player when a faction turns on them, or lets bygones be bygones
+        this.factions.onReputationChange((faction, reputation, previousReputation) => {
+            this.handleReputationChange(faction, reputation, previousReputation);
+        });
         
         // Set up input handlers
         this.setupInputHandlers();
@@ -74,21 +163,29 @@ export class Game {
         this.viewport.height = height;
     }
 
-    // Set up initial ship configuration with basic modules
-    private addInitialShipModules(): void {
+    // Fit a ship out with a loadout's wheel, masts and guns
+    private addShipModules(ship: Ship, loadout: ModuleLoadout): void {
         // Wheel
-        this.ship.addModule('wheel', new WheelModule({ x: -50, y: 0 }));
+        ship.addModule('wheel', new WheelModule(loadout.wheel));
         // Sails
-        this.ship.addModule('sail1', new SailModule({ x: 165, y: 0 }));
-        this.ship.addModule('sail2', new SailModule({ x: -35, y: 0 }));
-        this.ship.addModule('sail3', new SailModule({ x: -235, y: 0 }));
+        loadout.sails.forEach((sail, index) => {
+            ship.addModule(`sail${index + 1}`, new SailModule(sail));
+        });
         // Cannons
-        this.ship.addModule('cannon1', new CannonModule({ x: -35, y: 75 }, Math.PI));
-        this.ship.addModule('cannon2', new CannonModule({ x: 65, y: 75 }, Math.PI));
-        this.ship.addModule('cannon3', new CannonModule({ x: -135, y: 75 }, Math.PI));
-        this.ship.addModule('cannon4', new CannonModule({ x: -35, y: -75 }, 0));
-        this.ship.addModule('cannon5', new CannonModule({ x: 65, y: -75 }, 0));
-        this.ship.addModule('cannon6', new CannonModule({ x: -135, y: -75 }, 0));
+        loadout.cannons.forEach((cannon, index) => {
+            ship.addModule(`cannon${index + 1}`, new CannonModule({ x: cannon.x, y: cannon.y }, cannon.rotation));
+        });
+    }
+    
+    // Every ship afloat, the player's first
+    private getAllShips(): Ship[] {
+        return [
+            this.ship,
+            ...this.enemies.map(enemy => enemy.ship),
+            ...this.merchants.map(merchant => merchant.ship),
+            ...this.islanders.map(islander => islander.ship),
+            ...this.allies.map(ally => ally.ship)
+        ];
     }
     
     // Set up keyboard and mouse input handlers
@@ -120,12 +217,22 @@ export class Game {
             }
         });// Mouse button handlers for cannon control
         this.canvas.addEventListener('mousedown', (e) => {
+            // HUD buttons take priority over firing
+            if (e.button === 0 && this.handleHudClick(this.screenMousePosition.x, this.screenMousePosition.y)) {
+                e.preventDefault();
+                return;
+            }
+            
             // Check if player is on ship
             if (this.playerOnShip) {
                 if (e.button === 0) {
                     // Left mouse button - fire cannons
-                    // Allow firing regardless of whether the player is at the wheel or not
-                    this.ship.fireCannon(this.mousePosition);
+                    // A gunner fires only their own cannon; otherwise every gun that bears fires
+                    if (this.player.mannedCannonId) {
+                        this.ship.fireSingleCannon(this.player.mannedCannonId);
+                    } else {
+                        this.ship.fireCannon(this.mousePosition);
+                    }
                     e.preventDefault();
                 } else if (e.button === 2) {
                     // Right mouse button - set flag for cannon aiming
@@ -182,8 +289,8 @@ export class Game {
             if (e.key.toLowerCase() === 'f') { // 'F' to board/exit ship
                 this.togglePlayerOnShip();
             }
-            else if (e.key.toLowerCase() === 'e') { // 'E' to mount/dismount wheel when on ship
-                this.togglePlayerAtWheel();
+            else if (e.key.toLowerCase() === 'e') { // 'E' to take/leave the wheel or a cannon when on ship
+                this.toggleStation();
             }
             else if (e.key.toLowerCase() === 'l') { // 'L' to toggle debug collision shapes
                 this.debugMode = !this.debugMode;
@@ -192,9 +299,46 @@ export class Game {
                 this.showWalkableTest = !this.showWalkableTest;
                 // Debug message removed
             }
-            else if (e.key.toLowerCase() === 'r') { // 'R' to reset cannon angles
+            else if (e.key.toLowerCase() === 't') { // 'T' to reset cannon angles
                 this.resetCannonAngles();
             }
+            else if (e.key.toLowerCase() === 'z') { // 'Z' to fire the port broadside
+                this.fireBroadside('port');
+            }
+            else if (e.key.toLowerCase() === 'x') { // 'X' to fire the starboard broadside
+                this.fireBroadside('starboard');
+            }
+            else if (e.key.toLowerCase() === 'v') { // 'V' to toggle ripple fire
+                this.toggleRippleFire();
+            }
+            else if (e.key === '[') { // '[' to load a lighter powder charge
+                this.adjustPowderCharge(-0.1);
+            }
+            else if (e.key === ']') { // ']' to load a heavier powder charge
+                this.adjustPowderCharge(0.1);
+            }
+            else if (e.key.toLowerCase() === 'q') { // 'Q' to strike at a boarder with the cutlass
+                this.strikeBoarder();
+            }
+            else if (e.key.toLowerCase() === 'h') { // 'H' to hire an escort ship
+                this.hireEscort();
+            }
+            else if (e.key.toLowerCase() === 'n') { // 'N' to change the escorts' formation
+                this.cycleFormation();
+            }
+            else if (e.key.toLowerCase() === 'c') { // 'C' to send the escorts after the ship nearest the cursor, or call them back
+                this.commandEscorts();
+            }
+            else if (e.key.toLowerCase() === 'm') { // 'M' to mark the ship nearest the cursor as the gunners' target
+                this.markTarget();
+            }
+            else if (e.key.toLowerCase() === 'j') { // 'J' to hire a hand
+                this.hireCrew();
+            }
+            else if (e.key.toLowerCase() === 'k') { // 'K' to give the nearest hand their next station
+                this.assignCrewStation();
+            }
+            // 'R' (repair) is a held action, handled in updateRepair
         });
     }
 
@@ -235,6 +379,8 @@ export class Game {
 
     // Toggle player between on ship and off ship
     private togglePlayerOnShip(): void {
+        if (!this.player.isAlive()) return;
+        
         // Check if player is close enough to the ship to board
         const dx = this.player.position.x - this.ship.position.x;
         const dy = this.player.position.y - this.ship.position.y;
@@ -243,55 +389,12 @@ export class Game {
         // If player is already on the ship, check if they're at the wheel
         if (this.playerOnShip) {
             // Player wants to leave the ship completely
-            this.playerOnShip = false;
-            
-            // Update player and ship states
-            this.player.setOnShip(false, false);
-            this.ship.setPlayerOnBoard(false, false);
-            
-            // Calculate a safe dismount position outside the ship
-            // First, get player's current position
-            const playerLocalPos = this.worldToShipCoordinates(
-                this.player.position.x,
-                this.player.position.y
-            );
-            
-            // Find a direction vector pointing outward from the ship's center
-            // Normalize the local player position to get a direction vector
-            const length = Math.sqrt(playerLocalPos.x * playerLocalPos.x + playerLocalPos.y * playerLocalPos.y);
-            // If player is at center, use a default direction
-            const dirX = length > 0 ? playerLocalPos.x / length : 1;
-            const dirY = length > 0 ? playerLocalPos.y / length : 0;
-            
-            // Calculate a position outside the ship
-            // Use 1.5x the ship's width/height to ensure we're outside
-            const shipWidth = this.ship.size.width;
-            const shipHeight = this.ship.size.height;
-            const outsideDistance = Math.max(shipWidth, shipHeight) * 0.75;
-            
-            // Calculate dismount position in world coordinates
-            const dismountX = this.ship.position.x + dirX * outsideDistance;
-            const dismountY = this.ship.position.y + dirY * outsideDistance;
-            
-            // Update player position to the safe dismount position
-            this.player.position.x = dismountX;
-            this.player.position.y = dismountY;
-            
-            // Update player physics body position
-            Matter.Body.setPosition(this.player.body, {
-                x: dismountX,
-                y: dismountY
-            });
-            
-            // Reset collision filters when leaving ship
-            Matter.Body.set(this.player.body, {
-                collisionFilter: {
-                    ...this.player.body.collisionFilter,
-                    group: 0  // Reset to default group
-                }
-            });
-            
-            // Player left ship message removed
+            this.disembarkPlayer();
+            return;
+        }
+        
+        // A ship that is going under can't be boarded
+        if (this.ship.sinkingStage === SinkingStage.SINKING || this.ship.isSunk()) {
             return;
         }
         
@@ -339,13 +442,658 @@ export class Game {
         }
     }
     
+    // Move the player off the ship and into the water next to it
+    private disembarkPlayer(): void {
+        this.playerOnShip = false;
+        
+        // Update player and ship states
+        this.player.setOnShip(false, false);
+        this.ship.setPlayerOnBoard(false, false);
+        
+        // Calculate a safe dismount position outside the ship
+        // First, get player's current position
+        const playerLocalPos = this.worldToShipCoordinates(
+            this.player.position.x,
+            this.player.position.y
+        );
+        
+        // Find a direction vector pointing outward from the ship's center
+        // Normalize the local player position to get a direction vector
+        const length = Math.sqrt(playerLocalPos.x * playerLocalPos.x + playerLocalPos.y * playerLocalPos.y);
+        // If player is at center, use a default direction
+        const localDirX = length > 0 ? playerLocalPos.x / length : 1;
+        const localDirY = length > 0 ? playerLocalPos.y / length : 0;
+        
+        // Rotate the outward direction back into world space
+        const shipAngle = this.ship.body.angle;
+        const dirX = localDirX * Math.cos(shipAngle) - localDirY * Math.sin(shipAngle);
+        const dirY = localDirX * Math.sin(shipAngle) + localDirY * Math.cos(shipAngle);
+        
+        // Calculate a position outside the ship
+        // Use 1.5x the ship's width/height to ensure we're outside
+        const shipWidth = this.ship.size.width;
+        const shipHeight = this.ship.size.height;
+        const outsideDistance = Math.max(shipWidth, shipHeight) * 0.75;
+        
+        // Calculate dismount position in world coordinates
+        const dismountX = this.ship.position.x + dirX * outsideDistance;
+        const dismountY = this.ship.position.y + dirY * outsideDistance;
+        
+        // Update player position to the safe dismount position
+        this.player.position.x = dismountX;
+        this.player.position.y = dismountY;
+        
+        // Update player physics body position
+        Matter.Body.setPosition(this.player.body, {
+            x: dismountX,
+            y: dismountY
+        });
+        
+        // Reset collision filters when leaving ship
+        Matter.Body.set(this.player.body, {
+            collisionFilter: {
+                ...this.player.body.collisionFilter,
+                group: 0  // Reset to default group
+            }
+        });
+        
+        // Player left ship message removed
+    }
+    
+    // Repair the nearest damaged plank while the player holds R on deck
+    private updateRepair(): void {
+        this.repairTargetPlank = -1;
+        this.repairTargetModule = null;
+        
+        // Repairs are done on foot, not from the wheel or a gun
+        if (!this.playerOnShip || this.player.atShipWheel || this.player.mannedCannonId || !this.keysPressed.has('r')) {
+            return;
+        }
+        
+        const localPos = this.worldToShipCoordinates(this.player.position.x, this.player.position.y);
+        const plankIndex = this.ship.findNearestDamagedPlank(localPos.x, localPos.y, Game.REPAIR_RANGE);
+        const module = this.ship.findNearestDamagedModule(localPos.x, localPos.y, Game.REPAIR_RANGE);
+        if (plankIndex < 0 && !module) {
+            return;
+        }
+        
+        // Better carpenters repair faster
+        const repairRate = Game.BASE_REPAIR_RATE * (1 + (this.player.skills.carpentry - 1) * 0.5);
+        
+        // Never restore more health than the wood we're carrying allows
+        const affordable = this.player.inventory.wood / Ship.WOOD_PER_HEALTH;
+        if (affordable <= 0) {
+            this.showHudMessage('Out of wood!', '#ffcc00', 1000);
+            return;
+        }
+        
+        // Work on whichever is closer, the damaged plank or the damaged module
+        const plank = plankIndex >= 0 ? this.ship.planks[plankIndex] : null;
+        const plankDistance = plank ? Math.hypot(plank.position.x - localPos.x, plank.position.y - localPos.y) : Infinity;
+        const moduleDistance = module ? Math.hypot(module.position.x - localPos.x, module.position.y - localPos.y) : Infinity;
+        
+        let restored = 0;
+        if (module && moduleDistance < plankDistance) {
+            const wasDestroyed = module.isDestroyed();
+            restored = module.repair(Math.min(repairRate, affordable));
+            this.repairTargetModule = module;
+            if (wasDestroyed && !module.isDestroyed()) {
+                this.showHudMessage(`The ${module.type} has been rebuilt`, '#80ff80');
+            }
+        } else {
+            restored = this.ship.repairPlank(plankIndex, Math.min(repairRate, affordable));
+            this.repairTargetPlank = plankIndex;
+        }
+        this.player.useWood(restored * Ship.WOOD_PER_HEALTH);
+    }
+    
+    // Work the pump (when near it) or bail with a bucket while the player holds B on deck
+    private updateBailing(): void {
+        this.bailingAction = null;
+        
+        if (!this.playerOnShip || this.player.atShipWheel || this.player.mannedCannonId || !this.keysPressed.has('b')) {
+            return;
+        }
+        
+        // Registered work is applied on the ship's next water level update
+        const localPos = this.worldToShipCoordinates(this.player.position.x, this.player.position.y);
+        if (this.ship.isNearPump(localPos.x, localPos.y)) {
+            this.ship.workPump();
+            this.bailingAction = 'pump';
+        } else {
+            this.ship.bailWater();
+            this.bailingAction = 'bucket';
+        }
+    }
+    
+    // Highlight the plank the player is repairing
+    private drawRepairTarget(): void {
+        if (this.repairTargetModule) {
+            // Module health is already shown by its health bar, so just mark it
+            const worldPos = this.shipToWorldCoordinates(this.repairTargetModule.position.x, this.repairTargetModule.position.y);
+            this.ctx.save();
+            this.ctx.strokeStyle = this.repairTargetModule.isDestroyed() ? '#ffcc00' : '#80ff80';
+            this.ctx.lineWidth = 3;
+            this.ctx.setLineDash([6, 4]);
+            this.ctx.beginPath();
+            this.ctx.arc(worldPos.x, worldPos.y, 25, 0, Math.PI * 2);
+            this.ctx.stroke();
+            this.ctx.restore();
+            return;
+        }
+        
+        if (this.repairTargetPlank < 0) return;
+        
+        const plank = this.ship.planks[this.repairTargetPlank];
+        if (!plank) return;
+        
+        const worldPos = this.shipToWorldCoordinates(plank.position.x, plank.position.y);
+        this.ctx.save();
+        this.ctx.strokeStyle = plank.health < Ship.LEAK_THRESHOLD ? '#ffcc00' : '#80ff80';
+        this.ctx.lineWidth = 3;
+        this.ctx.setLineDash([6, 4]);
+        this.ctx.beginPath();
+        this.ctx.arc(worldPos.x, worldPos.y, 25, 0, Math.PI * 2);
+        this.ctx.stroke();
+        
+        // Plank health above the repair marker
+        this.ctx.setLineDash([]);
+        this.ctx.fillStyle = '#333';
+        this.ctx.fillRect(worldPos.x - 25, worldPos.y - 40, 50, 6);
+        this.ctx.fillStyle = '#00cc00';
+        this.ctx.fillRect(worldPos.x - 25, worldPos.y - 40, plank.health / 2, 6);
+        this.ctx.restore();
+    }
+    
+    // React to a ship moving between sinking stages
+    private handleSinkingStageChange(ship: Ship, stage: SinkingStage): void {
+        // Other ships only matter to us once they are gone
+        if (ship !== this.ship) {
+            if (stage === SinkingStage.SINKING) {
+                const enemy = this.enemies.find(e => e.ship === ship);
+                const name = enemy ? enemy.archetype.name : FACTION_STATS[ship.faction].shipName;
+                this.showHudMessage(`${name} is going down!`, '#80ff80');
+                // Whoever sent it down answers for it (and tougher ships start to turn up)
+                if (ship.lastAttacker?.faction === Faction.PLAYER) {
+                    this.factions.recordSinking(ship.faction);
+                    this.shipsSunk++;
+                }
+            } else if (stage === SinkingStage.SUNK) {
+                this.destroyShip(ship);
+            }
+            return;
+        }
+        
+        switch (stage) {
+            case SinkingStage.TAKING_WATER:
+                this.showHudMessage('Taking on water!', '#33ccff');
+                break;
+            case SinkingStage.CRITICAL:
+                this.showHudMessage('Hull critical - bail or repair!', '#ffcc00');
+                break;
+            case SinkingStage.SINKING:
+                this.showHudMessage('Abandon ship!', '#ff3300');
+                // Everyone aboard is forced into the water
+                if (ship === this.ship && this.playerOnShip) {
+                    this.disembarkPlayer();
+                }
+                break;
+            case SinkingStage.SUNK:
+                this.showHudMessage('The ship has sunk', '#ff3300');
+                this.destroyShip(ship);
+                break;
+        }
+    }
+    
+    // Announce when the player's reputation tips a faction into (or out of) hostility
+    private handleReputationChange(faction: Faction, reputation: number, previousReputation: number): void {
+        const threshold = FactionRelations.HOSTILE_REPUTATION;
+        const name = FACTION_STATS[faction].name;
+        if (reputation <= threshold && previousReputation > threshold) {
+            this.showHudMessage(`The ${name} now treat you as an enemy!`, '#ff8080');
+        } else if (reputation > threshold && previousReputation <= threshold) {
+            this.showHudMessage(`The ${name} no longer treat you as an enemy`, '#80ff80');
+        }
+    }
+    
+    // Fully remove a ship that has gone down: crew into the water, wreckage and loot left floating
+    private destroyShip(ship: Ship): void {
+        // Anyone still aboard ends up in the water
+        if (ship === this.ship && this.playerOnShip) {
+            this.disembarkPlayer();
+        }
+        
+        // Leave a wreck behind with wreckage and loot drifting away from it
+        this.wrecks.push(new Wreck(ship.position.x, ship.position.y, ship.body.angle, ship.hullPoints));
+        this.flotsam.push(...Flotsam.scatter(ship.position.x, ship.position.y, 12, 3));
+        
+        // The hands go down with the player's ship
+        if (ship === this.ship) {
+            this.crew.disband();
+        }
+        
+        // A merchant's cargo goes into the sea with it
+        const merchant = this.merchants.find(m => m.ship === ship);
+        if (merchant) {
+            this.flotsam.push(...Flotsam.jettison(ship.position.x, ship.position.y, merchant.unloadCargo(), Game.CARGO_CRATES));
+        }
+        
+        // Take the ship's bodies and modules out of the game (calls back into removeBody)
+        this.sinkingListeners.delete(ship);
+        ship.destroy();
+    }
+    
+    // Remove a body from the physics world
+    removeBody(body: Matter.Body): void {
+        this.physics.removeBody(body);
+    }
+    
+    // Drift wreckage with the wind and let the player collect it
+    private updateFlotsam(): void {
+        const windDirection = this.world.getWindDirection();
+        const windPower = this.world.getWindPower();
+        
+        for (const piece of this.flotsam) {
+            // Swimmers grab what they swim into; sailors grab what their hull runs over
+            const picked = this.playerOnShip
+                ? !this.ship.isSunk() && Matter.Vertices.contains(this.ship.body.vertices, piece.position)
+                : piece.isWithinReach(this.player.position.x, this.player.position.y, 15);
+            
+            if (picked) {
+                piece.collected = true;
+                this.player.addLoot(piece.contents);
+                this.showHudMessage(
+                    piece.kind === 'crate'
+                        ? `Loot crate: +${piece.contents.wood} wood, +${piece.contents.gold} gold`
+                        : `+${piece.contents.wood} wood`,
+                    '#ffd700',
+                    1500
+                );
+            }
+        }
+        
+        this.flotsam = this.flotsam.filter(piece => piece.update(windDirection, windPower));
+    }
+    
+    // Fire one side's cannons at the mouse cursor (only those that bear will fire)
+    private fireBroadside(side: Broadside): void {
+        if (!this.playerOnShip) {
+            return;
+        }
+        
+        const fired = this.ship.fireBroadside(side, this.mousePosition);
+        if (fired === 0) {
+            this.showHudMessage(`No loaded ${side} guns bear on target`, '#ffcc66', 1500);
+        }
+    }
+    
+    // Switch between firing broadsides all at once and rippling them bow to stern
+    private toggleRippleFire(): void {
+        if (!this.playerOnShip) {
+            return;
+        }
+        
+        this.ship.rippleFire = !this.ship.rippleFire;
+        this.showHudMessage(`Ripple fire ${this.ship.rippleFire ? 'ON' : 'OFF'}`, '#ffffff', 1500);
+    }
+    
+    // Pay for an allied ship to join the player's formation
+    private hireEscort(): void {
+        if (!this.playerOnShip || this.ship.isSunk()) {
+            return;
+        }
+        if (this.allies.length >= Game.MAX_ESCORTS) {
+            this.showHudMessage('No more escorts will sail with you', '#ffcc00');
+            return;
+        }
+        if (this.player.inventory.gold < Game.ESCORT_COST) {
+            this.showHudMessage(`An escort costs ${Game.ESCORT_COST} gold`, '#ffcc00');
+            return;
+        }
+        
+        this.player.inventory.gold -= Game.ESCORT_COST;
+        
+        // The new ship joins at its station in the current formation
+        const slot = this.allies.length;
+        const offset = getFormationOffset(this.formation, slot);
+        const station = this.ship.localToWorld(offset.x, offset.y);
+        const ship = this.createAIShip(station.x, station.y, Faction.PLAYER);
+        Matter.Body.setAngle(ship.body, this.ship.body.angle);
+        
+        const ally = new Ally(ship, this.ship, slot);
+        ally.captain.navigation = new NavigationPlanner(this.world);
+        this.allies.push(ally);
+        this.showHudMessage('An escort joins your flotilla', '#80ff80');
+    }
+    
+    // Switch the escorts to the next formation
+    private cycleFormation(): void {
+        const index = FORMATION_ORDER.indexOf(this.formation);
+        this.formation = FORMATION_ORDER[(index + 1) % FORMATION_ORDER.length];
+        this.showHudMessage(`Formation: ${FORMATION_NAMES[this.formation]}`, '#ffffff', 1500);
+    }
+    
+    // Another ship near the cursor (not one of our own), or null if there isn't one
+    private findShipNearCursor(): Ship | null {
+        let target: Ship | null = null;
+        let nearestDistance = Game.ENGAGE_COMMAND_RANGE;
+        for (const ship of this.getAllShips()) {
+            if (ship === this.ship || ship.isSunk() || this.allies.some(ally => ally.ship === ship)) continue;
+            const distance = Math.hypot(ship.position.x - this.mousePosition.x, ship.position.y - this.mousePosition.y);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                target = ship;
+            }
+        }
+        return target;
+    }
+    
+    // Mark the ship nearest the cursor for the gunners, or clear the mark if there's none there
+    private markTarget(): void {
+        const target = this.findShipNearCursor();
+        if (!target || target === this.markedTarget) {
+            if (this.markedTarget) {
+                this.markedTarget = null;
+                this.showHudMessage('Target cleared', '#ffffff', 1500);
+            }
+            return;
+        }
+        this.markedTarget = target;
+        this.showHudMessage('Target marked', '#ff8080', 1500);
+    }
+    
+    // Pay for a new hand, who comes aboard next to the player
+    private hireCrew(): void {
+        if (!this.playerOnShip || this.ship.isSunk()) {
+            return;
+        }
+        if (this.crew.members.length >= Game.MAX_CREW) {
+            this.showHudMessage('There is no room aboard for more hands', '#ffcc00');
+            return;
+        }
+        if (this.player.inventory.gold < Game.CREW_COST) {
+            this.showHudMessage(`A hand costs ${Game.CREW_COST} gold`, '#ffcc00');
+            return;
+        }
+        
+        this.player.inventory.gold -= Game.CREW_COST;
+        this.crew.hire(this.player.position.x, this.player.position.y);
+        this.showHudMessage('A new hand comes aboard (K to give them a station)', '#80ff80');
+    }
+    
+    // Move the hand nearest the player on to their next station
+    private assignCrewStation(): void {
+        if (!this.playerOnShip) {
+            return;
+        }
+        
+        const playerLocal = this.worldToShipCoordinates(this.player.position.x, this.player.position.y);
+        const member = this.crew.findNearest(playerLocal.x, playerLocal.y, Game.CREW_ORDER_RANGE);
+        if (!member) {
+            this.showHudMessage('No hand close enough to give orders to', '#ffcc00');
+            return;
+        }
+        
+        // Gunners take the free gun nearest the player
+        this.crew.assignNext(member, playerLocal);
+        this.showHudMessage(`Hand assigned: ${CREW_STATION_NAMES[member.station]}`, '#ffffff', 1500);
+    }
+    
+    // Order the escorts to attack the ship nearest the cursor, or back into formation if they're already fighting
+    private commandEscorts(): void {
+        if (this.allies.length === 0) {
+            return;
+        }
+        
+        if (this.allies.some(ally => ally.orderedTarget !== null)) {
+            this.allies.forEach(ally => ally.engage(null));
+            this.showHudMessage('Escorts returning to formation', '#ffffff', 1500);
+            return;
+        }
+        
+        // The marked target if there is one, otherwise whatever is under the cursor
+        const target = this.markedTarget ?? this.findShipNearCursor();
+        if (!target) {
+            this.showHudMessage('No ship near the cursor to engage', '#ffcc00');
+            return;
+        }
+        this.allies.forEach(ally => ally.engage(target));
+        this.showHudMessage('Escorts engaging!', '#ff8080');
+    }
+    
+    // Change the powder charge on every cannon, which changes how far shots carry
+    private adjustPowderCharge(delta: number): void {
+        if (!this.playerOnShip) {
+            return;
+        }
+        
+        let charge = 1;
+        this.ship.cannons.forEach(cannon => {
+            cannon.setPowderCharge(cannon.powderCharge + delta);
+            charge = cannon.powderCharge;
+        });
+        this.showHudMessage(`Powder charge ${charge.toFixed(1)}x`, '#ffffff', 1500);
+    }
+    
+    // Show a temporary banner message on the HUD
+    private showHudMessage(text: string, color: string, durationMs: number = 3000): void {
+        this.hudMessage = { text, color, expiresAt: Date.now() + durationMs };
+    }
+    
+    // Take or leave whichever station (wheel or cannon) the player is at or nearest to
+    private toggleStation(): void {
+        if (!this.playerOnShip || !this.player.isAlive()) return; // Only works when on ship, and on their feet
+        
+        // Leave the current station first
+        if (this.player.mannedCannonId) {
+            this.player.setManningCannon(null);
+            return;
+        }
+        if (this.player.atShipWheel) {
+            this.togglePlayerAtWheel();
+            return;
+        }
+        
+        // Otherwise take the closest station in reach
+        const localPos = this.worldToShipCoordinates(this.player.position.x, this.player.position.y);
+        const distanceToWheel = Math.hypot(localPos.x + 90, localPos.y);
+        const cannonId = this.ship.findNearestCannon(localPos.x, localPos.y, Game.STATION_RANGE);
+        
+        if (cannonId !== null) {
+            const crewPos = this.ship.cannons.get(cannonId)!.getCrewPosition();
+            const distanceToCannon = Math.hypot(crewPos.x - localPos.x, crewPos.y - localPos.y);
+            if (distanceToCannon < distanceToWheel) {
+                this.manCannon(cannonId);
+                return;
+            }
+        }
+        
+        this.togglePlayerAtWheel();
+    }
+    
+    // Put the player behind one of the ship's cannons
+    private manCannon(cannonId: string): void {
+        const cannon = this.ship.cannons.get(cannonId);
+        if (!cannon) return;
+        if (this.ship.isModuleSeized(cannonId)) {
+            this.showHudMessage('Boarders hold that gun!', '#ff8080');
+            return;
+        }
+        
+        this.player.setManningCannon(cannonId);
+        
+        // Move player to the gunner's spot behind the cannon
+        const crewPos = cannon.getCrewPosition();
+        const crewCoords = this.shipToWorldCoordinates(crewPos.x, crewPos.y);
+        this.player.position.x = crewCoords.x;
+        this.player.position.y = crewCoords.y;
+        Matter.Body.setPosition(this.player.body, crewCoords);
+    }
+    
+    // Aim and hold the player at the cannon they are manning
+    private updateMannedCannon(): void {
+        const cannon = this.player.mannedCannonId ? this.ship.cannons.get(this.player.mannedCannonId) : undefined;
+        if (!cannon) {
+            // The gun is gone (e.g. the ship went down)
+            this.player.setManningCannon(null);
+            return;
+        }
+        
+        // Train this cannon alone on the mouse cursor; aimAt keeps it within its arc
+        const localMousePos = this.worldToShipCoordinates(this.mousePosition.x, this.mousePosition.y);
+        cannon.aimAt(localMousePos.x, localMousePos.y);
+        cannon.setElevationForRange(Math.hypot(localMousePos.x - cannon.position.x, localMousePos.y - cannon.position.y), this.ship.getSpeed());
+        
+        // Keep the player locked to the gunner's spot as the ship moves
+        const crewPos = cannon.getCrewPosition();
+        const crewCoords = this.shipToWorldCoordinates(crewPos.x, crewPos.y);
+        this.player.position.x = crewCoords.x;
+        this.player.position.y = crewCoords.y;
+        Matter.Body.setPosition(this.player.body, crewCoords);
+        Matter.Body.setVelocity(this.player.body, {
+            x: this.ship.body.velocity.x,
+            y: this.ship.body.velocity.y
+        });
+        
+        // Ensure player body is a sensor (non-colliding) while manning the gun
+        if (!this.player.body.isSensor) {
+            Matter.Body.set(this.player.body, 'isSensor', true);
+        }
+    }
+    
+    // Sail the merchant fleet and take the surrender of any that are caught
+    private updateMerchants(): void {
+        for (const merchant of this.merchants) {
+            merchant.update(this.world.getWindDirection(), this.world.getWindPower());
+            
+            if (merchant.shouldSurrender()) {
+                if (merchant.captain.target?.faction === Faction.PLAYER) {
+                    this.factions.recordCapture(merchant.ship.faction);
+                }
+                // The cargo is put over the side for the captors to pick up
+                const cargo = merchant.surrender();
+                this.flotsam.push(...Flotsam.jettison(merchant.position.x, merchant.position.y, cargo, Game.CARGO_CRATES));
+                this.showHudMessage('The merchantman strikes its colours!', '#80ff80');
+            }
+        }
+        // Sunken merchants have already dropped their cargo
+        this.merchants = this.merchants.filter(merchant => merchant.isAlive());
+    }
+    
+    // Let the hands work their stations, with the gunners firing on the marked target
+    private updateCrew(): void {
+        if (this.markedTarget && this.markedTarget.isSunk()) {
+            this.markedTarget = null;
+        }
+        if (this.ship.isSunk()) {
+            return;
+        }
+        
+        this.crew.update({
+            windDirection: this.world.getWindDirection(),
+            target: this.markedTarget,
+            opponents: this.boardingParties.filter(party => party.target === this.ship).flatMap(party => party.members),
+            playerAtWheel: this.playerOnShip && this.player.atShipWheel,
+            playerCannonId: this.playerOnShip ? this.player.mannedCannonId : null,
+            stores: this.player.inventory
+        });
+    }
+    
+    // Launch boarding parties from enemies that have come alongside, and run the fights on deck
+    private updateBoarding(): void {
+        for (const enemy of this.enemies) {
+            if (enemy.captain.target === this.ship && enemy.captain.isReadyToBoard()) {
+                this.boardingParties.push(new BoardingParty(enemy.ship, this.ship, enemy.captain.launchBoarders()));
+                this.showHudMessage('Boarders coming over the side!', '#ff8080');
+            }
+        }
+        
+        if (this.playerStrikeCooldown > 0) {
+            this.playerStrikeCooldown--;
+        }
+        
+        this.boardingParties = this.boardingParties.filter(party => {
+            // Boarders fight the player (while aboard) and the hands on the deck they boarded
+            const opponents: CrewOpponent[] = [];
+            if (party.target === this.ship) {
+                if (this.playerOnShip) {
+                    opponents.push(this.player);
+                }
+                opponents.push(...this.crew.members);
+            }
+            party.update(opponents);
+            
+            if (party.target.isSunk()) {
+                party.disband();
+                return false;
+            }
+            if (party.isDefeated()) {
+                party.disband();
+                this.showHudMessage('Boarders repelled!', '#80ff80');
+                return false;
+            }
+            return true;
+        });
+        
+        // Boarders that take the wheel push the helmsman off it
+        if (this.player.atShipWheel && this.ship.isWheelSeized()) {
+            this.player.setAtShipWheel(false);
+            this.ship.togglePlayerAtWheel(false);
+            this.showHudMessage('Boarders have taken the wheel!', '#ff8080');
+        }
+    }
+    
+    // A player cut down on deck (by boarders or grape shot) is thrown over the side, and comes round in the water after a while
+    private updatePlayerDown(): void {
+        if (this.player.isAlive()) return;
+        
+        if (this.playerDownTimer <= 0) {
+            if (this.playerOnShip) {
+                this.disembarkPlayer();
+            }
+            this.playerDownTimer = Game.PLAYER_DOWN_TIME;
+            this.showHudMessage('You have been cut down and thrown over the side!', '#ff3300');
+            return;
+        }
+        
+        this.playerDownTimer--;
+        if (this.playerDownTimer <= 0) {
+            this.player.revive(Game.PLAYER_REVIVE_HEALTH);
+            this.showHudMessage('You come round in the water', '#80ff80');
+        }
+    }
+    
+    // Swing the cutlass at the nearest boarder in reach
+    private strikeBoarder(): void {
+        if (!this.playerOnShip || !this.player.isAlive() || this.playerStrikeCooldown > 0) return;
+        
+        let nearest: CrewMember | null = null;
+        let nearestDistance = Game.PLAYER_STRIKE_RANGE;
+        for (const party of this.boardingParties) {
+            for (const member of party.members) {
+                const position = member.position;
+                const distance = Math.hypot(position.x - this.player.position.x, position.y - this.player.position.y);
+                if (member.isAlive() && distance < nearestDistance) {
+                    nearestDistance = distance;
+                    nearest = member;
+                }
+            }
+        }
+        
+        this.playerStrikeCooldown = Game.PLAYER_STRIKE_INTERVAL;
+        if (nearest) {
+            nearest.takeDamage(Game.PLAYER_STRIKE_DAMAGE * this.player.skills.combat);
+        }
+    }
+    
     // Toggle player between steering the ship and walking on deck
     private togglePlayerAtWheel(): void {
         if (!this.playerOnShip) return; // Only works when on ship
         
         // Calculate distance to steering wheel
-        const wheelX = this.ship.position.x - 90; // Wheel is at -90,0 relative to ship center
-        const wheelY = this.ship.position.y;
+        const wheelCoords = this.shipToWorldCoordinates(-90, 0); // Wheel is at -90,0 relative to ship center
+        const wheelX = wheelCoords.x;
+        const wheelY = wheelCoords.y;
         const dx = this.player.position.x - wheelX;
         const dy = this.player.position.y - wheelY;
         const distanceToWheel = Math.sqrt(dx * dx + dy * dy);
@@ -359,7 +1107,9 @@ export class Game {
             // Player left wheel message removed
             
             // Already at a valid position, so no need to move
-        } else if (distanceToWheel < 50) {
+        } else if (distanceToWheel < Game.STATION_RANGE && this.ship.isWheelSeized()) {
+            this.showHudMessage('Boarders hold the wheel!', '#ff8080');
+        } else if (distanceToWheel < Game.STATION_RANGE) {
             // Player is close enough to the wheel to mount it
             this.player.setAtShipWheel(true);
             this.ship.togglePlayerAtWheel(true);
@@ -384,55 +1134,307 @@ export class Game {
         // Add entities to the world
         this.setupWorld();
         
-        // Start the physics engine
-        // Use Runner instead of deprecated Engine.run
-        const runner = Matter.Runner.create();
-        Matter.Runner.run(runner, this.engine);
-        
-        // Start the game loop
+        // Start the game loop (which also steps the physics world)
         this.gameLoop();
     }
 
     private setupWorld(): void {
-        // Define collision categories
-        const defaultCategory = 0x0001;
-        const playerCategory = 0x0002;
-        const shipCategory = 0x0004;
+        // Add entities to the physics world
+        this.physics.register('player', this.player.body, this.player);
+        this.addShipToWorld(this.ship);
+        
+        // Resolve cannonball hits when shots touch a hull or plank. Shots can enter a ship's
+        // outline while still too high to hit, then drop onto it, so keep checking while they overlap.
+        for (const phase of ['start', 'active'] as const) {
+            this.physics.onCollision('cannonball', 'ship', (cannonball, ship) => this.handleHit(cannonball, ship), phase);
+            this.physics.onCollision('cannonball', 'plank', (cannonball, ship) => this.handleHit(cannonball, ship), phase);
+            // Shots that come down over an island bury themselves in the shore
+            this.physics.onCollision('cannonball', 'terrain', (cannonball) => {
+                if (cannonball.strikeShore()) {
+                    this.particles.emitDust(cannonball.position.x, cannonball.position.y, cannonball.radius / 5);
+                }
+            }, phase);
+        }
+        // Ramming another ship or running aground damages the hull at the point of contact
+        this.physics.onCollision('ship', 'ship', (ship, _other, pair, hull, other) => this.handleImpact(ship, pair, hull, other));
+        this.physics.onCollision('ship', 'terrain', (ship, _terrain, pair, hull, other) => this.handleImpact(ship, pair, hull, other));
         
-        // Set collision filters for the player
-        Matter.Body.set(this.player.body, {
-            collisionFilter: {
-                category: playerCategory,
-                mask: defaultCategory // Player only collides with default category by default
+        // Stream the ocean in around the player, putting each chunk's ships to sea as it loads
+        this.world.onChunkLoaded(chunk => this.populateChunk(chunk));
+        this.world.updateChunks(this.player.position);
+        
+        // Put the difficulty's warships to sea
+        this.spawnEnemies(DIFFICULTY_STATS[this.difficulty].enemyCount);
+    }
+
+    // Add a ship's hull and planks to the physics world
+    private addShipToWorld(ship: Ship): void {
+        this.physics.register('ship', ship.body, ship);
+        this.physics.register('plank', ship.planks.map(plank => plank.body), ship);
+    }
+
+    private spawnEnemies(count: number): void {
+        for (let i = 0; i < count; i++) {
+            // Start well away from the player's ship, in open water
+            let x = 0;
+            let y = 0;
+            for (let attempt = 0; attempt < 20; attempt++) {
+                const distance = 1500 + this.spawnRandom() * 1000;
+                const direction = this.spawnRandom() * Math.PI * 2;
+                x = this.ship.position.x + Math.cos(direction) * distance;
+                y = this.ship.position.y + Math.sin(direction) * distance;
+                if (this.world.isClearWater({ x, y }, 400)) break;
             }
+            
+            // The difficulty and the player's record decide how dangerous a ship turns up
+            this.launchEnemy(chooseArchetype(this.difficulty, this.shipsSunk, this.spawnRandom), x, y);
+        }
+    }
+    
+    // Put a warship to sea
+    private launchEnemy(archetype: EnemyArchetype, x: number, y: number): Enemy {
+        const ship = this.createAIShip(x, y, archetype.faction, archetype.hull, archetype.loadout);
+        const enemy = new Enemy(ship, archetype, DIFFICULTY_STATS[this.difficulty].accuracyScale);
+        // Plan routes around the islands, and cruise the waters around the player until there's a fight
+        enemy.captain.navigation = new NavigationPlanner(this.world);
+        enemy.captain.sailTo({
+            x: this.player.position.x + (this.spawnRandom() - 0.5) * 4000,
+            y: this.player.position.y + (this.spawnRandom() - 0.5) * 4000
         });
+        this.enemies.push(enemy);
+        return enemy;
+    }
+    
+    // Replace lost warships one at a time, after a while
+    private updateReinforcements(): void {
+        if (this.enemies.length >= DIFFICULTY_STATS[this.difficulty].enemyCount) {
+            this.reinforcementTimer = Game.REINFORCEMENT_DELAY;
+            return;
+        }
         
-        // Set collision filters for the ship
-        Matter.Body.set(this.ship.body, {
-            collisionFilter: {
-                category: shipCategory,
-                mask: defaultCategory | playerCategory // Ship collides with default and player categories
+        this.reinforcementTimer--;
+        if (this.reinforcementTimer <= 0) {
+            this.spawnEnemies(1);
+            this.reinforcementTimer = Game.REINFORCEMENT_DELAY;
+        }
+    }
+    
+    // Put a merchantman to sea on a trade route, bound for the port after `startPort`
+    private launchMerchant(x: number, y: number, route: TradeRoute, cargo: Inventory, startPort: number): Merchant {
+        const ship = this.createAIShip(x, y, Faction.MERCHANTS);
+        const merchant = new Merchant(ship, route, cargo, startPort);
+        merchant.captain.navigation = new NavigationPlanner(this.world);
+        this.merchants.push(merchant);
+        return merchant;
+    }
+    
+    // Put a native war canoe to sea on a circuit round its island, bound for the point after `startWaypoint`
+    private launchIslander(x: number, y: number, patrol: { x: number, y: number }[], startWaypoint: number): Islander {
+        const ship = this.createAIShip(x, y, Faction.NATIVES, 'sloop', 'light');
+        const islander = new Islander(ship, patrol, startWaypoint);
+        islander.captain.navigation = new NavigationPlanner(this.world);
+        this.islanders.push(islander);
+        return islander;
+    }
+    
+    // Points in open water round an island for its islanders to sail between (empty if there's no room to patrol)
+    private planIslanderPatrol(island: Island): { x: number, y: number }[] {
+        const distance = island.radius + Game.ISLANDER_PATROL_OFFSET;
+        const patrol: { x: number, y: number }[] = [];
+        for (let i = 0; i < Game.ISLANDER_PATROL_POINTS; i++) {
+            const direction = i / Game.ISLANDER_PATROL_POINTS * Math.PI * 2;
+            const point = {
+                x: island.position.x + Math.cos(direction) * distance,
+                y: island.position.y + Math.sin(direction) * distance
+            };
+            if (this.world.isClearWater(point, Game.ISLANDER_PATROL_OFFSET / 2)) {
+                patrol.push(point);
             }
-        });
-          // Add entities to the physics world
-        Matter.World.add(this.engine.world, [this.player.body, this.ship.body]);
+        }
+        return patrol.length >= 2 ? patrol : [];
+    }
+    
+    // Fill a chunk that has just loaded. The first time, that's a merchantman on each of its trade routes,
+    // starting at a random port, and natives guarding some of its islands; after that, the ships that
+    // were saved there while it was unloaded.
+    private populateChunk(chunk: Chunk): void {
+        if (chunk.firstVisit) {
+            // Each chunk's merchants come from their own random stream, so they don't depend on the order chunks load in
+            const random = this.world.getRandomStream(`ships:${chunk.key}`);
+            for (const route of chunk.tradeRoutes) {
+                const startPort = Math.floor(random() * route.ports.length);
+                const port = route.ports[startPort];
+                const cargo = {
+                    wood: 20 + Math.floor(random() * 31),
+                    gold: 50 + Math.floor(random() * 151)
+                };
+                this.launchMerchant(port.x, port.y, route, cargo, startPort);
+            }
+            
+            const natives = this.world.getRandomStream(`natives:${chunk.key}`);
+            for (const island of chunk.islands) {
+                if (natives() >= Game.ISLANDER_CHANCE) continue;
+                const patrol = this.planIslanderPatrol(island);
+                if (patrol.length === 0) continue;
+                const start = Math.floor(natives() * patrol.length);
+                this.launchIslander(patrol[start].x, patrol[start].y, patrol, start);
+            }
+        }
         
-        // Add a few enemy ships
-        this.spawnEnemies(3);
+        for (const saved of chunk.savedShips) {
+            let ship: Ship;
+            let captain: AICaptain;
+            if (saved.role === 'warship' && saved.archetype) {
+                // Reinforcements may have taken her place while she was away: if the difficulty's
+                // quota of warships is already at sea, she stays saved until the chunk loads again
+                if (this.enemies.length >= DIFFICULTY_STATS[this.difficulty].enemyCount) {
+                    this.world.saveShip(saved);
+                    continue;
+                }
+                ({ ship, captain } = this.launchEnemy(saved.archetype, saved.position.x, saved.position.y));
+            } else if (saved.route && saved.cargo) {
+                const startPort = (saved.nextPort + saved.route.ports.length - 1) % saved.route.ports.length;
+                const merchant = this.launchMerchant(saved.position.x, saved.position.y, saved.route, saved.cargo, startPort);
+                if (saved.captured) {
+                    merchant.surrender();
+                }
+                ({ ship, captain } = merchant);
+            } else if (saved.role === 'islander' && saved.patrol) {
+                const startWaypoint = (saved.nextPort + saved.patrol.length - 1) % saved.patrol.length;
+                ({ ship, captain } = this.launchIslander(saved.position.x, saved.position.y, saved.patrol, startWaypoint));
+            } else {
+                continue;
+            }
+            
+            // Back where she was, with the damage, flooding and fires she had
+            Matter.Body.setAngle(ship.body, saved.angle);
+            ship.planks.forEach((plank, i) => {
+                plank.health = saved.planks[i]?.health ?? plank.health;
+                plank.burning = saved.planks[i]?.burning ?? 0;
+            });
+            ship.updatePlankBodies();
+            ship.modules.forEach((module, id) => {
+                const damage = saved.modules[id];
+                if (!damage || !(module instanceof BaseModule)) return;
+                // Wrecked modules are knocked out and then part rebuilt, so they stay out of action until finished
+                if (damage.destroyed) {
+                    module.takeDamage(module.maxHealth);
+                    module.repair(damage.health);
+                } else {
+                    module.takeDamage(module.maxHealth - damage.health);
+                }
+            });
+            ship.waterLevel = saved.waterLevel;
+            
+            // The captain carries on as before, unless whoever they were after has gone
+            captain.behavior.resume(saved.behavior);
+            captain.target = saved.target && this.getAllShips().includes(saved.target) ? saved.target : null;
+            captain.boardersAboard = saved.boardersAboard;
+        }
     }
-
-    private spawnEnemies(count: number): void {
-        for (let i = 0; i < count; i++) {
-            const x = 500 + Math.random() * 1000;
-            const y = 500 + Math.random() * 1000;
-            const enemy = new Enemy(x, y, 100, 0.5, 'aggressive');
-              this.enemies.push(enemy);
-            Matter.World.add(this.engine.world, enemy.body);
+    
+    // Take warships, merchants (prizes included) and islanders out of the game once they are outside the
+    // loaded chunks, saving them into the world so they come back when the player returns
+    private stowDistantShips(): void {
+        const isDistant = (ship: Ship) => !ship.isSunk() && !this.world.isLoaded(ship.position);
+        
+        this.enemies = this.enemies.filter(enemy => {
+            if (!isDistant(enemy.ship)) return true;
+            this.stowShip(enemy.ship, enemy.captain, {
+                role: 'warship',
+                archetype: enemy.archetype,
+                route: null,
+                patrol: null,
+                nextPort: 0,
+                cargo: null,
+                captured: false
+            });
+            return false;
+        });
+        this.merchants = this.merchants.filter(merchant => {
+            if (!isDistant(merchant.ship)) return true;
+            this.stowShip(merchant.ship, merchant.captain, {
+                role: 'merchant',
+                archetype: null,
+                route: merchant.route,
+                patrol: null,
+                nextPort: merchant.nextPort,
+                cargo: merchant.cargo,
+                captured: merchant.captured
+            });
+            return false;
+        });
+        this.islanders = this.islanders.filter(islander => {
+            if (!isDistant(islander.ship)) return true;
+            this.stowShip(islander.ship, islander.captain, {
+                role: 'islander',
+                archetype: null,
+                route: null,
+                patrol: islander.patrol,
+                nextPort: islander.nextWaypoint,
+                cargo: null,
+                captured: false
+            });
+            return false;
+        });
+    }
+    
+    // Remove a ship without it counting as sunk or leaving a wreck, first saving it and its captain's
+    // state into the world (unless it is going down anyway)
+    private stowShip(ship: Ship, captain: AICaptain, saved: Pick<SavedShip, 'role' | 'archetype' | 'route' | 'patrol' | 'nextPort' | 'cargo' | 'captured'>): void {
+        if (ship.sinkingStage !== SinkingStage.SINKING) {
+            const modules: SavedShip['modules'] = {};
+            ship.modules.forEach((module, id) => {
+                if (module instanceof BaseModule) {
+                    modules[id] = { health: module.health, destroyed: module.destroyed };
+                }
+            });
+            
+            this.world.saveShip({
+                ...saved,
+                position: { x: ship.position.x, y: ship.position.y },
+                angle: ship.body.angle,
+                planks: ship.planks.map(plank => ({ health: plank.health, burning: plank.burning })),
+                modules,
+                waterLevel: ship.waterLevel,
+                behavior: captain.behavior.state,
+                target: captain.target,
+                boardersAboard: captain.boardersAboard
+            });
         }
+        
+        this.sinkingListeners.get(ship)?.();
+        this.sinkingListeners.delete(ship);
+        ship.destroy();
+    }
+    
+    // A fully fitted ship for an AI captain, flying a faction's colours
+    private createAIShip(x: number, y: number, faction: Faction, hull: HullType = 'brigantine', loadout: LoadoutType = 'standard'): Ship {
+        // The hull type sets her size (and so how many planks she has), speed, toughness and paint
+        const stats = HULL_STATS[hull];
+        const ship = new Ship(x, y, stats.length, stats.beam, 1);
+        ship.setGame(this);
+        this.addShipModules(ship, LOADOUTS[loadout]);
+        ship.setHull(stats);
+        ship.setFaction(faction);
+        // Every shot the player's flotilla lands is held against them
+        ship.onAttacked(attacker => {
+            if (attacker?.faction === Faction.PLAYER && ship.faction !== Faction.PLAYER) {
+                this.factions.recordAttack(ship.faction);
+            }
+        });
+        this.sinkingListeners.set(ship, ship.onSinkingStageChange((stage, _previousStage, sinkingShip) => {
+            this.handleSinkingStageChange(sinkingShip, stage);
+        }));
+        this.addShipToWorld(ship);
+        return ship;
     }
     
     // Handle player movement based on keyboard input
     private handlePlayerMovement(): void {
+        // A player who has been cut down just drifts until they come round
+        if (!this.player.isAlive()) return;
+        
         const moveSpeed = 5;
         
         if (this.playerOnShip) {
@@ -520,6 +1522,9 @@ export class Game {
                 if (!this.player.body.isSensor) {
                     Matter.Body.set(this.player.body, 'isSensor', true);
                 }
+            } else if (this.player.mannedCannonId) {
+                // Player is manning a cannon
+                this.updateMannedCannon();
             } else {
                 // Player is walking on the ship's deck
                 // Calculate angle between player and mouse for movement direction
@@ -671,7 +1676,11 @@ export class Game {
         }
           // Spacebar to fire cannons when on ship (regardless of whether at wheel or not)
         if (this.playerOnShip && this.keysPressed.has(' ')) {
-            this.ship.fireCannon(this.mousePosition);
+            if (this.player.mannedCannonId) {
+                this.ship.fireSingleCannon(this.player.mannedCannonId);
+            } else {
+                this.ship.fireCannon(this.mousePosition);
+            }
             // Remove space from pressed keys to prevent continuous firing
             this.keysPressed.delete(' ');
         }
@@ -725,8 +1734,59 @@ export class Game {
         // Draw grid lines for better movement reference
         this.drawGrid();
         
+        // Islands lie on the water, under every ship
+        this.world.draw(this.ctx);
+        
+        // Draw wrecks below everything that is still afloat
+        for (const wreck of this.wrecks) {
+            wreck.draw(this.ctx);
+        }
+        for (const piece of this.flotsam) {
+            piece.draw(this.ctx);
+        }
+        
+        // Draw enemy and merchant ships
+        for (const enemy of this.enemies) {
+            enemy.ship.draw(this.ctx);
+        }
+        for (const merchant of this.merchants) {
+            merchant.ship.draw(this.ctx);
+        }
+        for (const islander of this.islanders) {
+            islander.ship.draw(this.ctx);
+        }
+        for (const ally of this.allies) {
+            ally.ship.draw(this.ctx);
+        }
+        
         // Draw ship using the brigantine shape
-        this.ship.draw(this.ctx);
+        if (!this.ship.isSunk()) {
+            this.ship.draw(this.ctx);
+            
+            // Show module health to a player standing nearby
+            const playerLocal = this.worldToShipCoordinates(this.player.position.x, this.player.position.y);
+            this.ship.drawModuleHealthBars(this.ctx, playerLocal.x, playerLocal.y, Game.MODULE_BAR_RANGE);
+        }
+        
+        // Draw the hands and any boarders on the player's deck
+        if (!this.ship.isSunk()) {
+            this.crew.draw(this.ctx);
+        }
+        for (const party of this.boardingParties) {
+            party.draw(this.ctx);
+        }
+        
+        // Ring the ship the gunners are firing on
+        if (this.markedTarget) {
+            this.ctx.save();
+            this.ctx.strokeStyle = '#ff3333';
+            this.ctx.lineWidth = 3;
+            this.ctx.setLineDash([12, 8]);
+            this.ctx.beginPath();
+            this.ctx.arc(this.markedTarget.position.x, this.markedTarget.position.y, 280, 0, Math.PI * 2);
+            this.ctx.stroke();
+            this.ctx.restore();
+        }
         
         // Draw player exactly at their world position
         this.ctx.fillStyle = '#ffcc00'; // Yellow player color
@@ -751,18 +1811,17 @@ export class Game {
             this.ctx.stroke();
         }
         
-        // Draw enemies
-        this.ctx.fillStyle = '#ff3300'; // Red enemy color
-        for (const enemy of this.enemies) {
-            this.ctx.beginPath();
-            this.ctx.arc(enemy.position.x, enemy.position.y, 15, 0, Math.PI * 2);
-            this.ctx.fill();
-        }
           // Draw additional game elements like islands, etc.
         
+        // Draw splashes under the cannonballs still in flight
+        this.particles.draw(this.ctx);
+        
         // Draw cannonballs - moved here to be drawn with proper camera transform
         this.drawCannonballs();
         
+        // Show which plank is being repaired
+        this.drawRepairTarget();
+        
         // Draw debug collision shapes if debug mode is enabled
         if (this.debugMode) {
             this.drawDebugShapes();
@@ -794,6 +1853,35 @@ export class Game {
         this.ctx.strokeStyle = '#fff';
         this.ctx.strokeRect(20, 20, 200, 20);
         
+        // Wood carried for repairs
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.font = '12px Arial';
+        this.ctx.fillText(`Wood: ${Math.floor(this.player.inventory.wood)}  Gold: ${this.player.inventory.gold}`, 230, 35);
+        
+        // Escorts and hands (the line below is taken by the water flow when aboard)
+        const flotilla: string[] = [];
+        if (this.allies.length > 0) {
+            flotilla.push(`Escorts: ${this.allies.length} (${FORMATION_NAMES[this.formation]})`);
+        }
+        if (this.crew.members.length > 0) {
+            flotilla.push(`Crew: ${this.crew.members.length}`);
+        }
+        this.ctx.fillText(flotilla.join('  '), 230, 50);
+        
+        // How dangerous the ships that turn up are
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.fillText(`${DIFFICULTY_STATS[this.difficulty].name} - Threat ${getMaxTier(this.difficulty, this.shipsSunk)}/${MAX_TIER}  Sunk: ${this.shipsSunk}  Seed: ${this.world.seed}`, 230, 95);
+        
+        // Reputation with each faction, in red where they'll fire on sight
+        let reputationX = 230;
+        for (const faction of REPUTATION_FACTIONS) {
+            const reputation = this.factions.getReputation(faction);
+            const text = `${FACTION_STATS[faction].name}: ${reputation > 0 ? '+' : ''}${Math.round(reputation)}  `;
+            this.ctx.fillStyle = this.factions.isHostile(faction, Faction.PLAYER) ? '#ff8080' : '#ffffff';
+            this.ctx.fillText(text, reputationX, 80);
+            reputationX += this.ctx.measureText(text).width;
+        }
+        
         // Ship water level if player is on ship
         if (this.playerOnShip) {
             this.ctx.fillStyle = '#333';
@@ -803,6 +1891,45 @@ export class Game {
             this.ctx.fillRect(20, 50, this.ship.waterLevel * 2, 20);
                  this.ctx.strokeStyle = '#fff';
         this.ctx.strokeRect(20, 50, 200, 20);
+        
+            // Sinking stage label on the water bar
+            const stageColors: Record<SinkingStage, string> = {
+                [SinkingStage.AFLOAT]: '#ffffff',
+                [SinkingStage.TAKING_WATER]: '#33ccff',
+                [SinkingStage.CRITICAL]: '#ffcc00',
+                [SinkingStage.SINKING]: '#ff3300',
+                [SinkingStage.SUNK]: '#ff3300'
+            };
+            this.ctx.fillStyle = stageColors[this.ship.sinkingStage];
+            this.ctx.font = '12px Arial';
+            this.ctx.fillText(`Water: ${Math.round(this.ship.waterLevel)}% (${this.ship.sinkingStage.replace('_', ' ')})`, 25, 64);
+            
+            // Net inflow/outflow per second (60 ticks) so the crew can decide to repair or bail
+            const flowPerSecond = this.ship.netWaterFlow * 60;
+            let flowText = 'steady';
+            if (flowPerSecond > 0.05) {
+                this.ctx.fillStyle = '#ff8080'; // Flooding
+                flowText = `+${flowPerSecond.toFixed(1)}%/s`;
+            } else if (flowPerSecond < -0.05) {
+                this.ctx.fillStyle = '#80ff80'; // Draining
+                flowText = `${flowPerSecond.toFixed(1)}%/s`;
+            } else {
+                this.ctx.fillStyle = '#ffffff';
+            }
+            const actionText = this.bailingAction === 'pump' ? ' (pumping)' : this.bailingAction === 'bucket' ? ' (bailing)' : '';
+            this.ctx.fillText(`${flowText}${actionText}`, 230, 64);
+        }
+        
+        // Banner message for important events (sinking stages, etc.)
+        if (this.hudMessage && Date.now() < this.hudMessage.expiresAt) {
+            this.ctx.save();
+            this.ctx.font = 'bold 24px Arial';
+            this.ctx.textAlign = 'center';
+            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+            this.ctx.fillRect(this.canvas.width / 2 - 200, 20, 400, 40);
+            this.ctx.fillStyle = this.hudMessage.color;
+            this.ctx.fillText(this.hudMessage.text, this.canvas.width / 2, 48);
+            this.ctx.restore();
         }
         
         // Player coordinates tracker
@@ -819,7 +1946,9 @@ export class Game {
         // Add status text for player on ship
         let statusText = '';
         if (this.playerOnShip) {
-            statusText = this.player.atShipWheel ? ' (At Wheel)' : ' (On Deck)';
+            statusText = this.player.atShipWheel ? ' (At Wheel)' : this.player.mannedCannonId ? ' (Manning Cannon)' : ' (On Deck)';
+        } else if (!this.player.isAlive()) {
+            statusText = ' (Cut Down)';
         }
         
         this.ctx.fillText(`Coordinates: X: ${playerX} Y: ${playerY}${statusText}`, 30, this.playerOnShip ? 100 : 70);
@@ -1034,6 +2163,12 @@ export class Game {
         this.ctx.restore();
         this.ctx.restore();
         
+        // Ammo selection per broadside (clickable)
+        this.hudButtons = [];
+        if (this.playerOnShip) {
+            this.drawAmmoSelector();
+        }
+        
         // Display debug mode indicator if active
         if (this.debugMode) {
             const debugYPos = this.canvas.height - 80;
@@ -1054,90 +2189,150 @@ export class Game {
         if (this.playerOnShip) {
             if (this.player.atShipWheel) {
                 // Controls when at the wheel
-                this.ctx.fillText('W/S: Open/Close Sails | A/D: Steer | Shift+A/D: Rotate Sails | E: Leave Wheel | F: Exit Ship | SPACE: Fire Cannons | L: Debug', 30, controlsYPos + 20);
+                this.ctx.fillText('W/S: Open/Close Sails | A/D: Steer | Shift+A/D: Rotate Sails | E: Leave Wheel | F: Exit Ship | SPACE: Fire Cannons | Z/X: Port/Stbd Broadside | V: Ripple | H/N/C: Hire/Form/Command Escorts | M: Mark Target | L: Debug', 30, controlsYPos + 20);
+            } else if (this.player.mannedCannonId) {
+                // Controls when manning a cannon
+                this.ctx.fillText('Mouse: Aim Cannon | Left Click/SPACE: Fire | E: Leave Cannon | F: Exit Ship | L: Debug', 30, controlsYPos + 20);
             } else {
                 // Controls when walking on deck
-                this.ctx.fillText('WASD: Move on Deck | E: Use Wheel (when near) | F: Exit Ship | SPACE: Fire Cannons | L: Debug', 30, controlsYPos + 20);
+                this.ctx.fillText('WASD: Move on Deck | E: Use Wheel/Cannon (when near) | Hold R: Repair | Hold B: Bail/Pump | Q: Cutlass | J: Hire Hand | K: Assign Hand | M: Mark Target | F: Exit Ship | SPACE: Fire | Z/X: Broadside | V: Ripple | L: Debug', 30, controlsYPos + 20);
             }
         } else {
             this.ctx.fillText('WASD: Move (Relative to Mouse) | F: Board Ship | L: Toggle Debug Mode', 30, controlsYPos + 20);
         }
     }
 
-    // Draw grid lines for better movement reference
+    // Draw the per-broadside ammo selector below the wind indicator
+    private drawAmmoSelector(): void {
+        const buttonStyle = UI_PRESETS.button.small;
+        const buttonWidth = 60;
+        const buttonHeight = 24;
+        const panelX = this.canvas.width - 20 - AMMO_ORDER.length * (buttonWidth + 5) - 50;
+        let rowY = 150;
+        
+        this.ctx.save();
+        this.ctx.font = `${buttonStyle.fontSize}px Arial`;
+        this.ctx.textBaseline = 'middle';
+        
+        const sides: Broadside[] = ['port', 'starboard'];
+        for (const side of sides) {
+            // Side label
+            this.ctx.textAlign = 'left';
+            this.ctx.fillStyle = buttonStyle.textColor;
+            this.ctx.fillText(side === 'port' ? 'Port' : 'Stbd', panelX, rowY + buttonHeight / 2);
+            
+            const selected = this.ship.getBroadsideAmmo(side);
+            AMMO_ORDER.forEach((ammo, index) => {
+                const x = panelX + 50 + index * (buttonWidth + 5);
+                
+                this.ctx.fillStyle = buttonStyle.backgroundColor;
+                this.ctx.fillRect(x, rowY, buttonWidth, buttonHeight);
+                this.ctx.strokeStyle = ammo === selected ? buttonStyle.borderColor : '#666666';
+                this.ctx.lineWidth = ammo === selected ? 2 : 1;
+                this.ctx.strokeRect(x, rowY, buttonWidth, buttonHeight);
+                
+                this.ctx.textAlign = 'center';
+                this.ctx.fillStyle = ammo === selected ? buttonStyle.borderColor : buttonStyle.textColor;
+                this.ctx.fillText(AMMO_STATS[ammo].name, x + buttonWidth / 2, rowY + buttonHeight / 2);
+                
+                this.hudButtons.push({
+                    x, y: rowY, width: buttonWidth, height: buttonHeight,
+                    onClick: () => this.ship.setBroadsideAmmo(side, ammo)
+                });
+            });
+            
+            rowY += buttonHeight + 6;
+        }
+        
+        // Gunnery readout: powder charge plus the range the guns are currently laid for
+        const cannons = Array.from(this.ship.cannons.values());
+        if (cannons.length > 0) {
+            const gun = cannons[0];
+            const elevationDegrees = cannons.reduce((sum, cannon) => sum + cannon.elevation, 0) / cannons.length * 180 / Math.PI;
+            const range = cannons.reduce((sum, cannon) => sum + cannon.getRange(), 0) / cannons.length;
+            this.ctx.textAlign = 'left';
+            this.ctx.fillStyle = buttonStyle.textColor;
+            this.ctx.fillText(
+                `Charge ${gun.powderCharge.toFixed(1)}x | Elev ${elevationDegrees.toFixed(0)}° | Range ${range.toFixed(0)} / ${gun.getMaxRange().toFixed(0)}`,
+                panelX, rowY + buttonHeight / 2
+            );
+        }
+        
+        this.ctx.restore();
+    }
+    
+    // Run the HUD button under a screen position, returns true if one was clicked
+    private handleHudClick(screenX: number, screenY: number): boolean {
+        const button = this.hudButtons.find(b =>
+            screenX >= b.x && screenX <= b.x + b.width &&
+            screenY >= b.y && screenY <= b.y + b.height);
+        
+        if (button) {
+            button.onClick();
+            return true;
+        }
+        return false;
+    }
+    
+    // Draw grid lines for better movement reference. Lines are counted in whole cells from the origin,
+    // so the grid and its labels stay exact however far out the player sails.
     private drawGrid(): void {
         const gridSize = 100; // Size of each grid cell
+        const labelEvery = 5; // Label every fifth line (every 500 units)
         const gridColor = 'rgba(255, 255, 255, 0.2)'; // Semi-transparent white
         
-        // Calculate grid boundaries to ensure coverage of the entire visible area accounting for zoom
-        // Add extra padding to ensure grid covers the entire screen even after translation
-        const visibleWidth = this.viewport.width / this.viewport.scale;
-        const visibleHeight = this.viewport.height / this.viewport.scale;
+        // The visible area (the camera is centred on the viewport position), with a cell spare on each side
+        const halfWidth = this.viewport.width / this.viewport.scale / 2;
+        const halfHeight = this.viewport.height / this.viewport.scale / 2;
+        const firstColumn = Math.floor((this.viewport.x - halfWidth) / gridSize) - 1;
+        const lastColumn = Math.ceil((this.viewport.x + halfWidth) / gridSize) + 1;
+        const firstRow = Math.floor((this.viewport.y - halfHeight) / gridSize) - 1;
+        const lastRow = Math.ceil((this.viewport.y + halfHeight) / gridSize) + 1;
+        const left = firstColumn * gridSize;
+        const right = lastColumn * gridSize;
+        const top = firstRow * gridSize;
+        const bottom = lastRow * gridSize;
         
-        const startX = Math.floor((this.viewport.x - visibleWidth) / gridSize) * gridSize;
-        const startY = Math.floor((this.viewport.y - visibleHeight) / gridSize) * gridSize;
-        const endX = startX + visibleWidth * 4; // Increased coverage for wider screens
-        const endY = startY + visibleHeight * 4; // Increased coverage for taller screens
-        
-        this.ctx.strokeStyle = gridColor;
-        this.ctx.lineWidth = 1;
+        this.ctx.font = '10px Arial';
         
-        // Draw vertical lines
-        for (let x = startX; x <= endX; x += gridSize) {
+        // Vertical lines, labelled along the top of the screen
+        for (let column = firstColumn; column <= lastColumn; column++) {
+            const x = column * gridSize;
+            this.setGridLineStyle(column === 0, gridColor);
             this.ctx.beginPath();
-            this.ctx.moveTo(x, startY);
-            this.ctx.lineTo(x, endY);
+            this.ctx.moveTo(x, top);
+            this.ctx.lineTo(x, bottom);
             this.ctx.stroke();
             
-            // Add coordinate labels at major grid lines (every 500 units)
-            if (x % 500 === 0) {
+            if (column % labelEvery === 0) {
                 this.ctx.fillStyle = gridColor;
-                this.ctx.font = '10px Arial';
                 this.ctx.textAlign = 'center';
-                this.ctx.fillText(x.toString(), x, startY + 15);
+                this.ctx.fillText(x.toString(), x, this.viewport.y - halfHeight + 15);
             }
         }
         
-        // Draw a highlighted grid line at origin (0,0)
-        if (0 >= startX && 0 <= endX) {
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)'; // Brighter line for origin
-            this.ctx.lineWidth = 2;
-            this.ctx.beginPath();
-            this.ctx.moveTo(0, startY);
-            this.ctx.lineTo(0, endY);
-            this.ctx.stroke();
-            this.ctx.strokeStyle = gridColor;
-            this.ctx.lineWidth = 1;
-        }
-        
-        // Draw horizontal lines
-        for (let y = startY; y <= endY; y += gridSize) {
+        // Horizontal lines, labelled down the left of the screen
+        for (let row = firstRow; row <= lastRow; row++) {
+            const y = row * gridSize;
+            this.setGridLineStyle(row === 0, gridColor);
             this.ctx.beginPath();
-            this.ctx.moveTo(startX, y);
-            this.ctx.lineTo(endX, y);
+            this.ctx.moveTo(left, y);
+            this.ctx.lineTo(right, y);
             this.ctx.stroke();
             
-    // Add coordinate labels at major grid lines (every 500 units)
-    if (y % 500 === 0) {
-        this.ctx.fillStyle = gridColor;
-        this.ctx.font = '10px Arial';
-        this.ctx.textAlign = 'left';
-        this.ctx.fillText(y.toString(), startX + 5, y + 15);
-    }
-}
-        
-        // Draw a highlighted grid line at origin (0,0)
-        if (0 >= startY && 0 <= endY) {
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)'; // Brighter line for origin
-            this.ctx.lineWidth = 2;
-            this.ctx.beginPath();
-            this.ctx.moveTo(startX, 0);
-            this.ctx.lineTo(endX, 0);
-            this.ctx.stroke();
-            this.ctx.strokeStyle = gridColor;
-            this.ctx.lineWidth = 1;
+            if (row % labelEvery === 0) {
+                this.ctx.fillStyle = gridColor;
+                this.ctx.textAlign = 'left';
+                this.ctx.fillText(y.toString(), this.viewport.x - halfWidth + 5, y + 15);
+            }
         }
     }
+    
+    // Grid lines through the origin (0,0) are drawn brighter
+    private setGridLineStyle(isOrigin: boolean, gridColor: string): void {
+        this.ctx.strokeStyle = isOrigin ? 'rgba(255, 255, 255, 0.5)' : gridColor;
+        this.ctx.lineWidth = isOrigin ? 2 : 1;
+    }
 
     // Draw collision shapes and boundaries for debugging
     private drawDebugShapes(): void {
@@ -1152,6 +2347,42 @@ export class Game {
         this.ctx.strokeStyle = 'rgba(255, 165, 0, 0.7)'; // Orange for enemy collision bodies
         for (const enemy of this.enemies) {
             this.drawPhysicsBody(enemy.body);
+            
+            // Planned route, with tack points marked
+            const route = enemy.captain.navigation?.getRoute() ?? [];
+            if (route.length > 0) {
+                this.ctx.save();
+                this.ctx.setLineDash([20, 15]);
+                this.ctx.beginPath();
+                this.ctx.moveTo(enemy.position.x, enemy.position.y);
+                route.forEach(waypoint => this.ctx.lineTo(waypoint.x, waypoint.y));
+                this.ctx.stroke();
+                this.ctx.setLineDash([]);
+                route.filter(waypoint => waypoint.tack).forEach(waypoint => {
+                    this.ctx.beginPath();
+                    this.ctx.arc(waypoint.x, waypoint.y, 12, 0, Math.PI * 2);
+                    this.ctx.stroke();
+                });
+                this.ctx.restore();
+            }
+            
+            // Label each enemy with its type and current behaviour state
+            this.ctx.save();
+            this.ctx.fillStyle = 'rgba(255, 165, 0, 1)';
+            this.ctx.font = '16px Arial';
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText(
+                `${enemy.type}: ${enemy.aiBehavior.toUpperCase()} (hull ${Math.round(enemy.ship.getHullIntegrity() * 100)}%)`,
+                enemy.position.x,
+                enemy.position.y - 130
+            );
+            this.ctx.restore();
+        }
+        
+        // Draw plank sensor bodies to check they line up with the hull
+        this.ctx.strokeStyle = 'rgba(255, 0, 255, 0.7)'; // Magenta for plank sensors
+        for (const plank of this.ship.planks) {
+            this.drawPhysicsBody(plank.body);
         }
         
         // Draw ship deck area with a semi-transparent overlay
@@ -1200,7 +2431,7 @@ export class Game {
         // Draw hull outline
         if (!this.ship.path) {
             // Make sure path exists
-            this.ship.path = Ship.createHullPath();
+            this.ship.path = Ship.createHullPath(this.ship.hullPoints);
         }
         
         // Draw a semi-transparent overlay for the ship hull
@@ -1361,6 +2592,8 @@ export class Game {
             if (cannon instanceof CannonModule) {
                 // Pass local mouse position to aim at
                 cannon.aimAt(localMousePos.x, localMousePos.y);
+                // Lay the gun so the shot comes down at the cursor
+                cannon.setElevationForRange(Math.sqrt(dx * dx + dy * dy), this.ship.getSpeed());
             } 
         });
     }    // Reset cannon angles to their default position
@@ -1384,18 +2617,12 @@ export class Game {
     }
       
     // Add a cannonball to the game
-    addCannonball(x: number, y: number, angle: number, speed: number = 10): void {
-        // Log cannonball creation details
-        console.log('Creating cannonball:', {
-            position: { x, y },
-            angle: angle * (180/Math.PI), // Convert to degrees for readability
-            speed: speed
-        });
-          const cannonball = new Cannonball(x, y, angle, speed);
+    addCannonball(x: number, y: number, angle: number, speed: number = 10, owner: Ship | null = null, ammoType: AmmoType = AmmoType.ROUND, elevation: number = 0): void {
+        const cannonball = new Cannonball(x, y, angle, speed, owner, ammoType, elevation);
         this.cannonballs.push(cannonball);
         
         // Add cannonball physics body to the world
-        Matter.World.add(this.engine.world, cannonball.body);
+        this.physics.register('cannonball', cannonball.body, cannonball);
     }
     
     // Update and manage cannonballs
@@ -1407,16 +2634,72 @@ export class Game {
             // Update cannonball and check if it's still alive
             const isAlive = cannonball.update();
             
-            if (!isAlive) {                // Remove cannonball from physics world
-                Matter.World.remove(this.engine.world, cannonball.body);
+            if (!isAlive) {
+                // Shots that came down in the sea throw up a splash
+                if (cannonball.splashed) {
+                    this.particles.emitSplash(cannonball.position.x, cannonball.position.y, cannonball.radius / 5);
+                }
+                
+                // Remove cannonball from physics world
+                this.physics.removeBody(cannonball.body);
                 
                 // Remove from our array
                 this.cannonballs.splice(i, 1);
             }
         }
         
-        // Check for collisions with enemies
-        // In a full implementation, we would use Matter.js collision events
+    }
+    
+    // A cannonball touching a ship's hull or one of its planks
+    private handleHit(cannonball: Cannonball, ship: Ship): void {
+        if (cannonball.hasHit || ship.isSunk()) return;
+        
+        // Spent cannonballs are removed on the next updateCannonballs pass
+        cannonball.handleCollision(ship);
+        
+        // Grape shot sprays whoever is standing on deck near the impact
+        if (cannonball.hasHit) {
+            this.applyCrewDamage(ship, cannonball);
+        }
+    }
+    
+    // Something solid (another ship, or an island or the world's edge) striking a ship's hull
+    // damages the planks and modules at the point of contact
+    private handleImpact(ship: Ship, pair: Matter.Pair, hull: Matter.Body, other: Matter.Body): void {
+        if (pair.isSensor) return;
+        
+        const closingSpeed = Math.hypot(
+            hull.velocity.x - other.velocity.x,
+            hull.velocity.y - other.velocity.y
+        );
+        if (closingSpeed < Game.RAM_MIN_SPEED) return;
+        
+        const contact = pair.collision.supports[0] || other.position;
+        ship.handleCollisionImpact(contact.x, contact.y, (closingSpeed - Game.RAM_MIN_SPEED) * Game.RAM_DAMAGE_PER_SPEED);
+    }
+    
+    // Damage everyone standing on a ship's deck near a cannonball impact: the player, hired hands and boarders alike
+    private applyCrewDamage(ship: Ship, cannonball: Cannonball): void {
+        const stats = AMMO_STATS[cannonball.ammoType];
+        if (stats.crewDamage <= 0) return;
+        
+        const onDeck: CrewOpponent[] = [
+            ...this.boardingParties.filter(party => party.target === ship).flatMap(party => party.members)
+        ];
+        if (ship === this.ship) {
+            onDeck.push(...this.crew.members);
+            if (this.playerOnShip) {
+                onDeck.push(this.player);
+            }
+        }
+        
+        for (const person of onDeck) {
+            const dx = person.position.x - cannonball.position.x;
+            const dy = person.position.y - cannonball.position.y;
+            if (person.isAlive() && dx * dx + dy * dy < stats.crewRadius * stats.crewRadius) {
+                person.takeDamage(stats.crewDamage);
+            }
+        }
     }
     
     // Draw all cannonballs
@@ -1427,9 +2710,22 @@ export class Game {
     }
     
     private gameLoop(): void {
-        // Update game state and render each frame
-        requestAnimationFrame(() => {
-            this.update();
+        // Update game state in fixed steps of real time (one per PhysicsManager.TIME_STEP), so the game
+        // runs at the same speed whatever the display's refresh rate, and render each frame
+        requestAnimationFrame((time) => {
+            this.unsimulatedTime += this.lastFrameTime === null ? PhysicsManager.TIME_STEP : time - this.lastFrameTime;
+            this.lastFrameTime = time;
+            
+            let steps = 0;
+            while (this.unsimulatedTime >= PhysicsManager.TIME_STEP && steps < Game.MAX_STEPS_PER_FRAME) {
+                this.update();
+                this.unsimulatedTime -= PhysicsManager.TIME_STEP;
+                steps++;
+            }
+            if (steps === Game.MAX_STEPS_PER_FRAME) {
+                this.unsimulatedTime = 0;
+            }
+            
             this.render2D();
             this.gameLoop();
         });
@@ -1437,8 +2733,10 @@ export class Game {
 
     private update(): void {
         
-        // Update world physics
-        this.world.update();
+        // Step the physics world, then the wind, and stream in the ocean around the player
+        this.physics.update();
+        this.world.update(this.player.position);
+        this.stowDistantShips();
         
         // Store player's position relative to ship if they're on the ship
         // We do this BEFORE updating the ship so we can maintain relative position
@@ -1447,7 +2745,14 @@ export class Game {
         let wasAtWheel = false;
         
         if (this.playerOnShip) {
-            if (this.player.atShipWheel) {
+            const mannedCannon = this.player.mannedCannonId ? this.ship.cannons.get(this.player.mannedCannonId) : undefined;
+            if (mannedCannon) {
+                // A gunner stays at their cannon's crew position, just like the wheel
+                const crewPos = mannedCannon.getCrewPosition();
+                localPlayerPos.x = crewPos.x;
+                localPlayerPos.y = crewPos.y;
+                wasAtWheel = true;
+            } else if (this.player.atShipWheel) {
                 // If at wheel, store the fixed wheel position in ship coordinates
                 // The wheel is always at -90,0 in ship's coordinate system (from Ship.ts line 71)
                 localPlayerPos.x = -90;
@@ -1465,14 +2770,23 @@ export class Game {
             }
         }
         
-        // Apply wind forces to the ship
-        this.ship.applyWindForce(
-            this.world.getWindDirection(),
-            this.world.getWindPower()
-        );
+        // Sunken ships no longer sail
+        if (!this.ship.isSunk()) {
+            // Apply wind forces to the ship
+            this.ship.applyWindForce(
+                this.world.getWindDirection(),
+                this.world.getWindPower()
+            );
+            
+            // Update ship
+            this.ship.update();
+        }
+        
+        // Age out wrecks
+        this.wrecks = this.wrecks.filter(wreck => wreck.update());
         
-        // Update ship
-        this.ship.update();
+        // Drift and collect floating wreckage
+        this.updateFlotsam();
         
         // Update player position based on their location on the ship
         if (wasOnDeck || wasAtWheel) {
@@ -1531,12 +2845,47 @@ export class Game {
         // Handle player input AFTER maintaining ship-relative position
         this.handlePlayerMovement();
         
-        // Update enemies
+        // Repair planks while R is held
+        this.updateRepair();
+        
+        // Pump or bail water while B is held
+        this.updateBailing();
+        
+        // Hired hands work their stations
+        this.updateCrew();
+        
+        // Update enemies and navy patrols: their captains sail them under the same wind as the player
+        // Each captain first looks around for ships their faction is at war with
+        const ships = this.getAllShips();
         for (const enemy of this.enemies) {
-            if (Math.random() < 0.01) { // Occasionally move towards player
-                enemy.moveTowards(this.player.position.x, this.player.position.y);
-            }
+            enemy.captain.lookout(ships, this.factions);
+            enemy.update(this.world.getWindDirection(), this.world.getWindPower());
         }
+        // Sunken enemies have already left a wreck behind
+        this.enemies = this.enemies.filter(enemy => enemy.isAlive());
+        this.updateReinforcements();
+        
+        // Merchants ply their routes, and give up their cargo when caught
+        this.updateMerchants();
+        
+        // Islanders sail round their islands, and see off anyone their people are at war with
+        for (const islander of this.islanders) {
+            islander.captain.lookout(ships, this.factions);
+            islander.update(this.world.getWindDirection(), this.world.getWindPower());
+        }
+        this.islanders = this.islanders.filter(islander => islander.isAlive());
+        
+        // Escorts keep station on the player, or fight
+        for (const ally of this.allies) {
+            ally.update(this.world.getWindDirection(), this.world.getWindPower(), this.formation);
+        }
+        this.allies = this.allies.filter(ally => ally.isAlive());
+        // Close up the formation when an escort is lost
+        this.allies.forEach((ally, slot) => ally.slot = slot);
+        
+        // Send boarders across and let them fight for the deck
+        this.updateBoarding();
+        this.updatePlayerDown();
         
         // Update camera to follow player
         this.updateCamera();
@@ -1554,6 +2903,9 @@ export class Game {
         
         // Update cannonballs
         this.updateCannonballs();
+        
+        // Update splashes
+        this.particles.update();
     }
       // This method has been moved to avoid duplicate declaration
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import Matter from 'matter-js';
+import Ship from './Ship';
+import { AICaptain, AI_BEHAVIOR_PROFILES } from './ai';
+import { AIBehavior } from '../types';
+
+// A native war canoe sailing a circuit round its home island.
+// Leaves passing ships alone, but drives off pirates and anyone who fires on it.
+export default class Islander {
+    ship: Ship;
+    captain: AICaptain;
+    patrol: { x: number, y: number }[]; // Points round the island, sailed in order
+    nextWaypoint: number;               // Index of the point we are bound for
+
+    constructor(ship: Ship, patrol: { x: number, y: number }[], startWaypoint: number = 0) {
+        this.ship = ship;
+        this.patrol = patrol;
+        this.captain = new AICaptain(ship, AI_BEHAVIOR_PROFILES.islander);
+        // Set off for the next point round the island
+        this.nextWaypoint = (startWaypoint + 1) % patrol.length;
+        this.captain.sailTo(patrol[this.nextWaypoint]);
+    }
+
+    get position(): { x: number; y: number } {
+        return this.ship.position;
+    }
+
+    get body(): Matter.Body {
+        return this.ship.body;
+    }
+
+    update(windDirection: number, windPower: number): void {
+        if (this.ship.isSunk()) return;
+
+        // Reached a point (or done fighting): on round the island
+        if (this.captain.destination === null && this.captain.behavior.state === AIBehavior.NEUTRAL) {
+            this.nextWaypoint = (this.nextWaypoint + 1) % this.patrol.length;
+            this.captain.sailTo(this.patrol[this.nextWaypoint]);
+        }
+        this.captain.update(windDirection);
+
+        this.ship.applyWindForce(windDirection, windPower);
+        this.ship.update();
+    }
+
+    isAlive(): boolean {
+        return !this.ship.isSunk();
+    }
+}
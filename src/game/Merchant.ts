@@ -0,0 +1,87 @@
+import Matter from 'matter-js';
+import Ship from './Ship';
+import { AICaptain, AI_BEHAVIOR_PROFILES } from './ai';
+import { TradeRoute } from './World';
+import { AIBehavior, Inventory } from '../types';
+
+// A neutral trading vessel plying a route between islands with a hold full of cargo.
+// Runs from anyone who attacks it, and strikes its colours if caught.
+export default class Merchant {
+    ship: Ship;
+    captain: AICaptain;
+    route: TradeRoute;
+    cargo: Inventory;
+    captured: boolean = false;
+    nextPort: number; // Index of the port we are bound for
+
+    // Seaworthiness (0-1) below which a fleeing merchant gives up
+    private static readonly SURRENDER_CONDITION = 0.5;
+    // A fleeing merchant also gives up when its pursuer gets this close
+    private static readonly SURRENDER_RANGE = 300;
+
+    constructor(ship: Ship, route: TradeRoute, cargo: Inventory, startPort: number = 0) {
+        this.ship = ship;
+        this.route = route;
+        this.cargo = cargo;
+        this.captain = new AICaptain(ship, AI_BEHAVIOR_PROFILES.trader);
+        // Set sail for the next port along the route
+        this.nextPort = (startPort + 1) % route.ports.length;
+        this.captain.sailTo(route.ports[this.nextPort]);
+    }
+
+    get position(): { x: number; y: number } {
+        return this.ship.position;
+    }
+
+    get body(): Matter.Body {
+        return this.ship.body;
+    }
+
+    update(windDirection: number, windPower: number): void {
+        if (this.ship.isSunk()) return;
+
+        if (this.captured) {
+            // A prize waits where it is
+            this.captain.heaveTo(windDirection);
+        } else {
+            // Made port: on to the next one
+            if (this.captain.destination === null && this.captain.behavior.state === AIBehavior.PASSIVE) {
+                this.nextPort = (this.nextPort + 1) % this.route.ports.length;
+                this.captain.sailTo(this.route.ports[this.nextPort]);
+            }
+            this.captain.update(windDirection);
+        }
+
+        this.ship.applyWindForce(windDirection, windPower);
+        this.ship.update();
+    }
+
+    // Whether the merchant has been run down or battered enough to give up
+    shouldSurrender(): boolean {
+        if (this.captured || this.captain.behavior.state !== AIBehavior.FLEEING) return false;
+
+        const pursuer = this.captain.target;
+        const caught = pursuer !== null &&
+            Math.hypot(pursuer.position.x - this.position.x, pursuer.position.y - this.position.y) < Merchant.SURRENDER_RANGE;
+        return caught || this.ship.getSeaworthiness() < Merchant.SURRENDER_CONDITION;
+    }
+
+    // Strike colours and heave to. Returns the cargo, which is handed over.
+    surrender(): Inventory {
+        this.captured = true;
+        this.ship.flagColor = '#ffffff';
+        this.ship.flagEmblemColor = null;
+        return this.unloadCargo();
+    }
+
+    // Empty the hold (when the ship is taken or goes down)
+    unloadCargo(): Inventory {
+        const cargo = this.cargo;
+        this.cargo = { wood: 0, gold: 0 };
+        return cargo;
+    }
+
+    isAlive(): boolean {
+        return !this.ship.isSunk();
+    }
+}
@@ -1,4 +1,117 @@
-export {};
+// ParticleSystem.ts - Short-lived visual effects (splashes, spray)
 
-// Placeholder for particle system implementation to be implemented later
-// This empty export makes the file a module to prevent TypeScript error
\ No newline at end of file
+interface Particle {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    radius: number;
+    color: string;
+    lifetime: number;    // How long the particle has existed (in frames)
+    maxLifetime: number;
+}
+
+// Expanding foam ring left on the surface where something hit the water
+interface Ripple {
+    x: number;
+    y: number;
+    radius: number;
+    maxRadius: number;
+    lifetime: number;
+    maxLifetime: number;
+}
+
+export class ParticleSystem {
+    private particles: Particle[] = [];
+    private ripples: Ripple[] = [];
+
+    // Spray of water and a spreading ring where a cannonball lands in the sea
+    emitSplash(x: number, y: number, size: number = 1): void {
+        const count = Math.round(12 * size);
+        for (let i = 0; i < count; i++) {
+            const direction = Math.random() * Math.PI * 2;
+            const speed = (0.5 + Math.random() * 1.5) * size;
+            this.particles.push({
+                x,
+                y,
+                vx: Math.cos(direction) * speed,
+                vy: Math.sin(direction) * speed,
+                radius: 2 + Math.random() * 3 * size,
+                color: Math.random() < 0.5 ? '#ffffff' : '#cfe8ff',
+                lifetime: 0,
+                maxLifetime: 20 + Math.floor(Math.random() * 20)
+            });
+        }
+
+        this.ripples.push({
+            x,
+            y,
+            radius: 4,
+            maxRadius: 30 * size,
+            lifetime: 0,
+            maxLifetime: 45
+        });
+    }
+
+    // Puff of sand where a cannonball strikes an island's shore
+    emitDust(x: number, y: number, size: number = 1): void {
+        const count = Math.round(10 * size);
+        for (let i = 0; i < count; i++) {
+            const direction = Math.random() * Math.PI * 2;
+            const speed = (0.3 + Math.random() * 1.2) * size;
+            this.particles.push({
+                x,
+                y,
+                vx: Math.cos(direction) * speed,
+                vy: Math.sin(direction) * speed,
+                radius: 2 + Math.random() * 3 * size,
+                color: Math.random() < 0.5 ? '#e6d9a3' : '#c2a878',
+                lifetime: 0,
+                maxLifetime: 25 + Math.floor(Math.random() * 20)
+            });
+        }
+    }
+
+    update(): void {
+        // Move particles, slowing them down as the spray settles
+        this.particles = this.particles.filter(particle => {
+            particle.x += particle.vx;
+            particle.y += particle.vy;
+            particle.vx *= 0.92;
+            particle.vy *= 0.92;
+            particle.lifetime++;
+            return particle.lifetime < particle.maxLifetime;
+        });
+
+        // Grow ripples outward
+        this.ripples = this.ripples.filter(ripple => {
+            ripple.lifetime++;
+            ripple.radius = 4 + (ripple.maxRadius - 4) * (ripple.lifetime / ripple.maxLifetime);
+            return ripple.lifetime < ripple.maxLifetime;
+        });
+    }
+
+    draw(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+
+        // Ripples first so the spray sits on top
+        ctx.lineWidth = 2;
+        for (const ripple of this.ripples) {
+            const alpha = 1 - ripple.lifetime / ripple.maxLifetime;
+            ctx.strokeStyle = `rgba(255, 255, 255, ${(alpha * 0.6).toFixed(2)})`;
+            ctx.beginPath();
+            ctx.arc(ripple.x, ripple.y, ripple.radius, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+
+        for (const particle of this.particles) {
+            ctx.globalAlpha = 1 - particle.lifetime / particle.maxLifetime;
+            ctx.fillStyle = particle.color;
+            ctx.beginPath();
+            ctx.arc(particle.x, particle.y, particle.radius, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        ctx.restore();
+    }
+}
@@ -1,4 +1,5 @@
 import Matter from 'matter-js';
+import { Inventory, PlayerSkills } from '../types';
 
 export default class Player {
     position: { x: number; y: number };
@@ -6,10 +7,15 @@ export default class Player {
     body: Matter.Body;
     onShip: boolean;
     atShipWheel: boolean;
+    mannedCannonId: string | null; // Id of the ship cannon the player is manning, if any
+    skills: PlayerSkills;
+    inventory: Inventory;
 
     constructor(x: number, y: number) {
         this.position = { x, y };
         this.health = 100; // Default health
+        this.skills = { sailing: 1, gunnery: 1, carpentry: 1, combat: 1 };
+        this.inventory = { wood: 20, gold: 0 }; // Enough wood for a few repairs
         this.body = Matter.Bodies.circle(x, y, 15, {
             label: 'player',
             density: 0.002,
@@ -17,6 +23,7 @@ export default class Player {
         });
         this.onShip = false;
         this.atShipWheel = false;
+        this.mannedCannonId = null;
     }
 
     move(dx: number, dy: number) {
@@ -31,14 +38,35 @@ export default class Player {
         }
     }
 
+    // Use up wood, returns false if there isn't enough
+    useWood(amount: number): boolean {
+        if (this.inventory.wood < amount) {
+            return false;
+        }
+        this.inventory.wood -= amount;
+        return true;
+    }
+
+    // Add salvaged goods to what the player is carrying
+    addLoot(loot: Inventory): void {
+        this.inventory.wood += loot.wood;
+        this.inventory.gold += loot.gold;
+    }
+
     isAlive(): boolean {
         return this.health > 0;
     }
 
+    // Come round after being cut down, with some of their strength back
+    revive(health: number): void {
+        this.health = health;
+    }
+
     // Set player on ship status and update physics properties
     setOnShip(status: boolean, atWheel: boolean = false): void {
         this.onShip = status;
         this.atShipWheel = atWheel;
+        this.mannedCannonId = null;
         
         // When player is on ship, make body a sensor to avoid collisions
         // but only when at wheel - we want physics when walking on deck
@@ -53,4 +81,13 @@ export default class Player {
             Matter.Body.set(this.body, 'isSensor', atWheel);
         }
     }
+    
+    // Take (or let go of, with null) one of the ship's cannons
+    setManningCannon(cannonId: string | null): void {
+        if (this.onShip) {
+            this.mannedCannonId = cannonId;
+            // Like the wheel, a manned gun holds the player in place
+            Matter.Body.set(this.body, 'isSensor', cannonId !== null);
+        }
+    }
 }
\ No newline at end of file
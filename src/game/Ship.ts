@@ -1,5 +1,9 @@
 import Matter from 'matter-js';
-import { BaseModule, CannonModule, SailModule, WheelModule } from './modules';
+import { BaseModule, Broadside, CannonModule, SailModule, WheelModule } from './modules';
+import { AMMO_STATS } from './Ammunition';
+import { HullStats } from './Archetypes';
+import { FACTION_STATS } from './Factions';
+import { AmmoType, Faction, SinkingStage } from '../types';
 
 export type ModuleType = 'cannon' | 'sail' | 'wheel' | 'plank';
 
@@ -17,11 +21,38 @@ export interface ShipModule {
     use(): void;
 }
 
+// A single hull plank, stored in ship-local coordinates so it follows the hull as the ship moves
+export interface ShipPlank {
+    position: { x: number; y: number }; // Ship-local position on the hull outline
+    angle: number;                      // Ship-local angle of the plank along the hull
+    health: number;
+    burning: number;                    // Frames left until a fire on this plank burns out (0 = not burning)
+    body: Matter.Body;                  // Sensor body kept in sync with the ship each tick
+}
+
+// Outline of a hull in ship-local coordinates: the ends of the straight waist on each side, and the
+// control points the bow and stern curve round
+export interface HullPoints {
+    bow: { x: number, y: number };
+    bowTip: { x: number, y: number };
+    bowBottom: { x: number, y: number };
+    sternBottom: { x: number, y: number };
+    sternTip: { x: number, y: number };
+    stern: { x: number, y: number };
+}
+
+// Callback for sinking stage transitions (HUD, audio, scoring, etc.)
+export type SinkingStageListener = (stage: SinkingStage, previousStage: SinkingStage, ship: Ship) => void;
+
+// Called when a cannonball fired by another ship (or an unknown source) hits this one
+export type AttackedListener = (attacker: Ship | null, ship: Ship) => void;
+
 export default class Ship {
     // Ship's position - this is now a single unified center for all aspects (visual, physics, walkable)
     position: { x: number; y: number };
     size: { width: number; height: number };
-    speed: number;
+    readonly hullPoints: HullPoints; // Outline of this ship's hull (ship-local)
+    speed: number;  // Multiplier on the thrust from the sails (set by the hull design)
     health: number;
     body: Matter.Body;
     
@@ -33,9 +64,38 @@ export default class Ship {
     sails: Map<string, SailModule> = new Map();
     wheels: Map<string, WheelModule> = new Map();
     
-    planks: Array<{ position: { x: number, y: number }, health: number, body: Matter.Body }> = [];
+    planks: ShipPlank[] = [];
     waterLevel: number = 0;
     
+    // Sinking lifecycle
+    sinkingStage: SinkingStage = SinkingStage.AFLOAT;
+    sinkingProgress: number = 0; // 0-1 progress through the SINKING stage
+    private sinkingStageListeners: SinkingStageListener[] = [];
+    private attackedListeners: AttackedListener[] = [];
+    private destroyed: boolean = false; // Set once destroy() has cleaned the ship up
+    flagColor: string | null = null; // Colors flown at the stern (null for none)
+    flagEmblemColor: string | null = null; // Device in the middle of the flag (null for a plain flag)
+    faction: Faction = Faction.PLAYER; // Who this ship sails for
+    lastAttacker: Ship | null = null;  // Last ship to land a shot on us (credited if we go down)
+    
+    // Hull build
+    damageTaken: number = 1;         // Multiplier on damage from shot and ramming
+    hullColor: string = '#D2B48C';   // Deck and hull fill
+    trimColor: string = '#8B4513';   // Gunwale outline
+    
+    // Bailing and pumping
+    netWaterFlow: number = 0;     // Net change in water level last tick (positive = flooding)
+    private pumpWorkers: number = 0; // Crew working the pump this tick
+    private bailers: number = 0;     // Crew bailing with buckets this tick
+    
+    // Broadside firing
+    rippleFire: boolean = false;  // Stagger shots along the broadside instead of firing all at once
+    rippleDelay: number = 10;     // Frames between shots when ripple firing
+    private pendingShots: Array<{ cannon: CannonModule, delay: number }> = []; // Queued ripple shots
+    
+    // Modules taken over by boarders (ids)
+    private seizedModules: Set<string> = new Set();
+    
     // Ship sailing properties
     rudderAngle: number = 0;       // Current rudder angle (-30 to +30 degrees)
     sailsOpenness: number = 0;     // Overall sail openness (0-100%)
@@ -66,8 +126,8 @@ export default class Ship {
     private game: any;
 
     // --- Shared hull and feature definitions (single source of truth) ---
-    // Hull path points (for Path2D and collision)
-    private static readonly HULL_POINTS = {
+    // Hull path points of the brigantine (for Path2D and collision); other hulls are stretched from it (see getHullPoints)
+    private static readonly HULL_POINTS: HullPoints = {
         bow: { x: 190, y: 90 },
         bowTip: { x: 415, y: 0 },
         bowBottom: { x: 190, y: -90 },
@@ -75,6 +135,8 @@ export default class Ship {
         sternTip: { x: -345, y: 0 },
         stern: { x: -260, y: 90 }
     };
+    private static readonly HULL_LENGTH = 450; // Length of the brigantine's straight waist, from stern to bow
+    private static readonly HULL_BEAM = 180;   // Width of the brigantine's hull
     // Mast positions (centered on hull)
     private static readonly MASTS = [
         { x: 165, y: 0, r: 30 },   // Front mast
@@ -83,6 +145,8 @@ export default class Ship {
     ];
     // Wheel position and shape (rectangle, not circle)
     private static readonly WHEEL = { x: -90, y: 0, w: 20, h: 40 };
+    // Bilge pump position (circle obstacle) and how close crew must be to work it
+    private static readonly PUMP = { x: 65, y: 0, r: 15, reach: 60 };
     // Cannon positions (centered on hull)
     private static readonly CANNONS = [
         { x: -35, y: 75, w: 30, h: 30 },    // Bottom center cannon
@@ -93,9 +157,117 @@ export default class Ship {
         { x: -135, y: -75, w: 30, h: 30 },  // Top left cannon
     ];
 
-    // --- Hull Path2D generator (always up to date) ---
-    static createHullPath(): Path2D {
+    // Planks below this health leak water into the hull
+    static readonly LEAK_THRESHOLD = 50;
+    // Wood used per point of plank or module health restored
+    static readonly WOOD_PER_HEALTH = 0.1;
+    // Water removed per frame by each crew member on the pump (at most MAX_PUMP_WORKERS help)
+    private static readonly PUMP_RATE_PER_WORKER = 0.06;
+    private static readonly MAX_PUMP_WORKERS = 3;
+    // Water removed per frame by each crew member bailing with a bucket
+    private static readonly BUCKET_RATE = 0.025;
+    // Plank health lost per frame while a plank is on fire
+    private static readonly BURN_DAMAGE = 0.05;
+    // Water level at which a flooding ship becomes critical
+    private static readonly CRITICAL_WATER_LEVEL = 60;
+    // Frames it takes a ship to go under once it starts sinking (5 seconds at 60fps)
+    private static readonly SINKING_DURATION = 300;
+    // Handling multiplier (thrust and turning) for each sinking stage
+    private static readonly STAGE_HANDLING: Record<SinkingStage, number> = {
+        [SinkingStage.AFLOAT]: 1.0,
+        [SinkingStage.TAKING_WATER]: 0.85,
+        [SinkingStage.CRITICAL]: 0.6,
+        [SinkingStage.SINKING]: 0.2,
+        [SinkingStage.SUNK]: 0
+    };
+
+    // Spacing between planks along the hull outline
+    private static readonly PLANK_SPACING = 40;
+    // Thickness of a plank's sensor body
+    private static readonly PLANK_THICKNESS = 12;
+    // Modules within this distance of a hit (ship-local units) take damage, falling off with distance
+    private static readonly MODULE_HIT_RADIUS = 60;
+
+    // Hull path points for a hull with a waist of the given length and beam. The bow and stern keep the
+    // brigantine's shape, moved out (or in) so the waist stays centred on the middle mast.
+    static getHullPoints(length: number, beam: number): HullPoints {
         const p = Ship.HULL_POINTS;
+        const shift = (length - Ship.HULL_LENGTH) / 2;
+        const widen = beam / Ship.HULL_BEAM;
+        const place = (point: { x: number, y: number }, dx: number) => ({ x: point.x + dx, y: point.y * widen });
+        return {
+            bow: place(p.bow, shift),
+            bowTip: place(p.bowTip, shift),
+            bowBottom: place(p.bowBottom, shift),
+            sternBottom: place(p.sternBottom, -shift),
+            sternTip: place(p.sternTip, -shift),
+            stern: place(p.stern, -shift)
+        };
+    }
+
+    // --- Hull outline sampler (same curves as createHullPath) ---
+    // Returns points spaced evenly along the hull outline with the local angle of the hull at each point
+    static sampleHullOutline(p: HullPoints, spacing: number): Array<{ x: number, y: number, angle: number }> {
+        
+        // Evaluate a quadratic bezier curve at t
+        const quadratic = (a: { x: number, y: number }, c: { x: number, y: number }, b: { x: number, y: number }, t: number) => ({
+            x: (1 - t) * (1 - t) * a.x + 2 * (1 - t) * t * c.x + t * t * b.x,
+            y: (1 - t) * (1 - t) * a.y + 2 * (1 - t) * t * c.y + t * t * b.y
+        });
+        
+        // Build a dense polyline that follows the hull path exactly
+        const steps = 64;
+        const dense: Array<{ x: number, y: number }> = [];
+        const bowEnd = { x: p.bow.x, y: p.bowBottom.y };
+        for (let i = 0; i < steps; i++) {
+            dense.push(quadratic(p.bow, p.bowTip, bowEnd, i / steps));
+        }
+        for (let i = 0; i < steps; i++) {
+            const t = i / steps;
+            dense.push({
+                x: bowEnd.x + (p.sternBottom.x - bowEnd.x) * t,
+                y: bowEnd.y + (p.sternBottom.y - bowEnd.y) * t
+            });
+        }
+        for (let i = 0; i < steps; i++) {
+            dense.push(quadratic(p.sternBottom, p.sternTip, p.stern, i / steps));
+        }
+        for (let i = 0; i < steps; i++) {
+            const t = i / steps;
+            dense.push({
+                x: p.stern.x + (p.bow.x - p.stern.x) * t,
+                y: p.stern.y + (p.bow.y - p.stern.y) * t
+            });
+        }
+        
+        // Walk the closed polyline and drop a sample every `spacing` units
+        const samples: Array<{ x: number, y: number, angle: number }> = [];
+        let distanceToNext = spacing / 2; // Offset so planks sit in the middle of each segment
+        for (let i = 0; i < dense.length; i++) {
+            const a = dense[i];
+            const b = dense[(i + 1) % dense.length];
+            const segmentLength = Math.hypot(b.x - a.x, b.y - a.y);
+            const segmentAngle = Math.atan2(b.y - a.y, b.x - a.x);
+            let travelled = 0;
+            
+            while (segmentLength - travelled >= distanceToNext) {
+                travelled += distanceToNext;
+                const t = travelled / segmentLength;
+                samples.push({
+                    x: a.x + (b.x - a.x) * t,
+                    y: a.y + (b.y - a.y) * t,
+                    angle: segmentAngle
+                });
+                distanceToNext = spacing;
+            }
+            distanceToNext -= segmentLength - travelled;
+        }
+        
+        return samples;
+    }
+
+    // --- Hull Path2D generator (always up to date) ---
+    static createHullPath(p: HullPoints): Path2D {
         const path = new Path2D();
         path.moveTo(p.bow.x, p.bow.y);
         path.quadraticCurveTo(p.bowTip.x, p.bowTip.y, p.bow.x, p.bowBottom.y);
@@ -103,7 +275,8 @@ export default class Ship {
         path.quadraticCurveTo(p.sternTip.x, p.sternTip.y, p.stern.x, p.stern.y);
         path.closePath();
         return path;
-    }    constructor(x: number, y: number, _width: number, _height: number, speed: number) {
+    }    // length and beam are the hull's size (see getHullPoints); a brigantine's is 450 by 180
+    constructor(x: number, y: number, length: number, beam: number, speed: number) {
         // Initialize position
         this.position = { x, y };
         this.speed = speed;
@@ -115,14 +288,16 @@ export default class Ship {
         this.turningForce = 0;
         this.momentum = 0;
         
-        // Create a more appropriate physics body for the brigantine shape
+        this.hullPoints = Ship.getHullPoints(length, beam);
+        
+        // Create a more appropriate physics body for the hull shape
         // Using a rectangle that better approximates the full drawn path dimensions
-        // Visual hull extends to control points at x=570 (bow) and x=-325 (stern)
-        // Using 620x180 to account for the full visual width including curves and extended bow
-        const fullShipWidth = 620; // Increased from 550 to extend the bow by approximately 1/8 of ship length (~70px)
+        // A brigantine's body is 620x180, to account for the full visual width including curves and extended bow;
+        // longer or shorter hulls add or lose the difference in their waist
+        const fullShipWidth = 620 + length - Ship.HULL_LENGTH;
         
         // Create physics body at its own position
-        this.body = Matter.Bodies.rectangle(x, y, fullShipWidth, 180, {
+        this.body = Matter.Bodies.rectangle(x, y, fullShipWidth, beam, {
             label: 'ship',
             density: 0.0005, // Lower density to make the ship more responsive
             frictionAir: 0.05, // Reduced air friction for more momentum
@@ -135,59 +310,75 @@ export default class Ship {
         });
         
         // Store the wider visual dimensions for proper deck boundary calculations
-        this.size = { width: fullShipWidth, height: 180 };
+        this.size = { width: fullShipWidth, height: beam };
         
         // Initialize the hull path for collision detection and visual rendering
-        this.path = Ship.createHullPath();
+        this.path = Ship.createHullPath(this.hullPoints);
         
         // Initialize ship with basic planks
         this.createPlankStructure();
     }
 
-    // Create a basic plank structure for the ship
+    // Create the plank structure along the hull outline
     private createPlankStructure(): void {
-        // Create planks around the perimeter of the ship
-        const totalPlanks = 40; // Total number of planks around the ship's perimeter
-        
-        // Place planks evenly around the brigantine shape
-        for (let i = 0; i < totalPlanks; i++) {
-            // Calculate angle for this plank
-            const angle = (i / totalPlanks) * Math.PI * 2;
-            
-            // Use consistent radius to match the hull shape
-            const radiusX = 225; // Match the width of the hull
-            const radiusY = 90;  // Match the height of the hull
-            
-            // Place the plank on the hull perimeter
-            this.addPlank(
-                this.position.x + Math.cos(angle) * radiusX, 
-                this.position.y + Math.sin(angle) * radiusY
-            );
+        // One plank per segment of the real hull outline, so bigger hulls have more planks
+        for (const sample of Ship.sampleHullOutline(this.hullPoints, Ship.PLANK_SPACING)) {
+            this.addPlank(sample.x, sample.y, sample.angle);
         }
         
-        // Add some structural planks inside
-        for (let x = -150; x <= 150; x += 50) {
-            this.addPlank(this.position.x + x, this.position.y);
-            this.addPlank(this.position.x + x, this.position.y - 40);
-            this.addPlank(this.position.x + x, this.position.y + 40);
-        }
+        // Place the plank bodies on the hull straight away
+        this.updatePlankBodies();
     }
     
-    // Add a single plank to the ship
-    private addPlank(x: number, y: number): void {
-        const plankSize = 15; // Size of each plank
-        const plankBody = Matter.Bodies.rectangle(x, y, plankSize, plankSize, {
-            label: 'plank',
-            isSensor: true,
-            density: 0.001
-        });
+    // Add a single plank to the ship at a ship-local position
+    private addPlank(localX: number, localY: number, localAngle: number): void {
+        const plankBody = Matter.Bodies.rectangle(
+            this.position.x + localX, 
+            this.position.y + localY, 
+            Ship.PLANK_SPACING, 
+            Ship.PLANK_THICKNESS, 
+            {
+                label: 'plank',
+                isSensor: true,
+                density: 0.001
+            }
+        );
         
         this.planks.push({
-            position: { x, y },
+            position: { x: localX, y: localY },
+            angle: localAngle,
             health: 100,
+            burning: 0,
             body: plankBody
         });
-    }      // Add a module to the ship
+    }
+    
+    // Move every plank body to its place on the hull (planks are sensors, so they are positioned, not simulated)
+    updatePlankBodies(): void {
+        const cosA = Math.cos(this.body.angle);
+        const sinA = Math.sin(this.body.angle);
+        
+        for (const plank of this.planks) {
+            Matter.Body.setPosition(plank.body, {
+                x: this.position.x + plank.position.x * cosA - plank.position.y * sinA,
+                y: this.position.y + plank.position.x * sinA + plank.position.y * cosA
+            });
+            Matter.Body.setAngle(plank.body, this.body.angle + plank.angle);
+            Matter.Body.setVelocity(plank.body, this.body.velocity);
+        }
+    }
+    
+    // All physics bodies that belong to this ship (hull and planks)
+    getPhysicsBodies(): Matter.Body[] {
+        return [this.body, ...this.planks.map(plank => plank.body)];
+    }
+    
+    // Check whether a physics body belongs to this ship
+    ownsBody(body: Matter.Body): boolean {
+        return body === this.body || this.planks.some(plank => plank.body === body);
+    }
+    
+      // Add a module to the ship
     addModule(id: string, moduleOrData: ShipModule | BaseModule): boolean {
         // Check if it's one of our new module types
         if (moduleOrData instanceof BaseModule) {
@@ -329,7 +520,7 @@ export default class Ship {
         let damagedPlankCount = 0;
         
         for (const plank of this.planks) {
-            if (plank.health < 50) {
+            if (plank.health < Ship.LEAK_THRESHOLD) {
                 damagedPlankCount++;
             }
         }
@@ -339,18 +530,381 @@ export default class Ship {
     
     // Update the ship's water level
     updateWaterLevel(): void {
+        // Once the ship is going under, the water level no longer matters
+        if (this.sinkingStage === SinkingStage.SINKING || this.sinkingStage === SinkingStage.SUNK) {
+            return;
+        }
+        
         const waterIntake = this.calculateWaterIntake();
-        this.waterLevel += waterIntake;
+        const waterOutflow = this.calculateWaterOutflow();
+        
+        // Crew have to keep working every tick to keep bailing
+        this.pumpWorkers = 0;
+        this.bailers = 0;
+        
+        const previousLevel = this.waterLevel;
+        this.waterLevel = Math.max(0, Math.min(100, this.waterLevel + waterIntake - waterOutflow));
+        this.netWaterFlow = this.waterLevel - previousLevel;
         
         if (this.waterLevel >= 100) {
             this.sink();
+        } else if (this.waterLevel >= Ship.CRITICAL_WATER_LEVEL) {
+            this.setSinkingStage(SinkingStage.CRITICAL);
+        } else if (this.waterLevel > 0 || waterIntake > 0) {
+            this.setSinkingStage(SinkingStage.TAKING_WATER);
+        } else {
+            this.setSinkingStage(SinkingStage.AFLOAT);
         }
     }
     
+    // Calculate how much water the crew is removing this tick
+    calculateWaterOutflow(): number {
+        const pumpRate = Math.min(this.pumpWorkers, Ship.MAX_PUMP_WORKERS) * Ship.PUMP_RATE_PER_WORKER;
+        const bucketRate = this.bailers * Ship.BUCKET_RATE;
+        return pumpRate + bucketRate;
+    }
+    
+    // Register a crew member working the bilge pump for this tick
+    workPump(): void {
+        this.pumpWorkers++;
+    }
+    
+    // Register a crew member bailing with a bucket for this tick
+    bailWater(): void {
+        this.bailers++;
+    }
+    
+    // Check whether a ship-local position is close enough to work the pump
+    isNearPump(localX: number, localY: number): boolean {
+        const dx = localX - Ship.PUMP.x;
+        const dy = localY - Ship.PUMP.y;
+        return dx * dx + dy * dy < Ship.PUMP.reach * Ship.PUMP.reach;
+    }
+    
+    // Ship-local position of the bilge pump
+    getPumpPosition(): { x: number, y: number } {
+        return { x: Ship.PUMP.x, y: Ship.PUMP.y };
+    }
+    
     // Function to handle the ship sinking
     sink(): void {
-        // Debug logging removed to be reimplemented
-        // Implement sinking mechanics
+        if (this.sinkingStage === SinkingStage.SINKING || this.sinkingStage === SinkingStage.SUNK) {
+            return;
+        }
+        
+        this.sinkingProgress = 0;
+        this.setSinkingStage(SinkingStage.SINKING);
+    }
+    
+    // Advance the ship through the SINKING stage until it is SUNK
+    private updateSinking(): void {
+        if (this.sinkingStage !== SinkingStage.SINKING) {
+            return;
+        }
+        
+        this.sinkingProgress = Math.min(1, this.sinkingProgress + 1 / Ship.SINKING_DURATION);
+        if (this.sinkingProgress >= 1) {
+            this.setSinkingStage(SinkingStage.SUNK);
+        }
+    }
+    
+    // Change the sinking stage and notify listeners of the transition
+    private setSinkingStage(stage: SinkingStage): void {
+        if (stage === this.sinkingStage) {
+            return;
+        }
+        
+        const previousStage = this.sinkingStage;
+        this.sinkingStage = stage;
+        this.sinkingStageListeners.forEach(listener => listener(stage, previousStage, this));
+    }
+    
+    // Subscribe to sinking stage transitions; returns a function that unsubscribes
+    onSinkingStageChange(listener: SinkingStageListener): () => void {
+        this.sinkingStageListeners.push(listener);
+        return () => {
+            this.sinkingStageListeners = this.sinkingStageListeners.filter(l => l !== listener);
+        };
+    }
+    
+    // Get notified whenever this ship is hit by a cannonball (returns an unsubscribe function)
+    onAttacked(listener: AttackedListener): () => void {
+        this.attackedListeners.push(listener);
+        return () => {
+            this.attackedListeners = this.attackedListeners.filter(l => l !== listener);
+        };
+    }
+    
+    // Build the ship to a hull design: how fast she sails, how much punishment she takes, and her timbers
+    setHull(hull: HullStats): void {
+        this.speed = hull.speed;
+        this.damageTaken = hull.damageTaken;
+        this.hullColor = hull.hullColor;
+        this.trimColor = hull.trimColor;
+    }
+    
+    // Sail for a faction: fly its flag and bend on its sailcloth
+    setFaction(faction: Faction): void {
+        const stats = FACTION_STATS[faction];
+        this.faction = faction;
+        this.flagColor = stats.flagColor;
+        this.flagEmblemColor = stats.emblemColor;
+        this.sails.forEach(sail => sail.clothColor = stats.sailColor);
+    }
+    
+    // Current speed over the water
+    getSpeed(): number {
+        return Math.hypot(this.body.velocity.x, this.body.velocity.y);
+    }
+    
+    // Average plank health as a fraction (1 = pristine hull, 0 = every plank smashed)
+    getHullIntegrity(): number {
+        if (this.planks.length === 0) return 1;
+        const total = this.planks.reduce((sum, plank) => sum + plank.health, 0);
+        return total / (this.planks.length * 100);
+    }
+    
+    // How fit the ship is to stay afloat (0-1): the worse of the hull's integrity and how dry the hold is,
+    // since a few holed planks sink a ship long before the rest of the hull is shot away
+    getSeaworthiness(): number {
+        return Math.min(this.getHullIntegrity(), 1 - this.waterLevel / 100);
+    }
+    
+    // Handling multiplier for thrust and turning based on how flooded the ship is
+    getHandlingFactor(): number {
+        return Ship.STAGE_HANDLING[this.sinkingStage];
+    }
+    
+    // Whether the ship has gone under completely
+    isSunk(): boolean {
+        return this.sinkingStage === SinkingStage.SUNK;
+    }
+    
+    // Convert a world position into this ship's local coordinate system
+    worldToLocal(worldX: number, worldY: number): { x: number, y: number } {
+        const dx = worldX - this.position.x;
+        const dy = worldY - this.position.y;
+        const cosA = Math.cos(-this.body.angle);
+        const sinA = Math.sin(-this.body.angle);
+        return {
+            x: dx * cosA - dy * sinA,
+            y: dx * sinA + dy * cosA
+        };
+    }
+    
+    // Convert a position in this ship's local coordinate system into world coordinates
+    localToWorld(localX: number, localY: number): { x: number, y: number } {
+        const cosA = Math.cos(this.body.angle);
+        const sinA = Math.sin(this.body.angle);
+        return {
+            x: this.position.x + localX * cosA - localY * sinA,
+            y: this.position.y + localX * sinA + localY * cosA
+        };
+    }
+    
+    // Find the index of the plank closest to a ship-local position (-1 if the ship has no planks)
+    findNearestPlank(localX: number, localY: number): number {
+        let nearestIndex = -1;
+        let nearestDistanceSq = Infinity;
+        
+        this.planks.forEach((plank, index) => {
+            const dx = plank.position.x - localX;
+            const dy = plank.position.y - localY;
+            const distanceSq = dx * dx + dy * dy;
+            if (distanceSq < nearestDistanceSq) {
+                nearestDistanceSq = distanceSq;
+                nearestIndex = index;
+            }
+        });
+        
+        return nearestIndex;
+    }
+    
+    // Resolve a cannonball impact at a world position by damaging the nearest plank
+    handleCannonballHit(worldX: number, worldY: number, damage: number, ammoType: AmmoType = AmmoType.ROUND, attacker: Ship | null = null): void {
+        damage *= this.damageTaken;
+        const impact = this.worldToLocal(worldX, worldY);
+        const plankIndex = this.findNearestPlank(impact.x, impact.y);
+        this.damagePlank(plankIndex, damage);
+        
+        // Splinters and shot wreck nearby guns, masts and the wheel
+        this.damageModulesNear(impact.x, impact.y, damage);
+        
+        const stats = AMMO_STATS[ammoType];
+        
+        // Chain shot tears through the rigging
+        if (stats.sailDamage > 0) {
+            const sail = this.findNearestSail(impact.x, impact.y);
+            if (sail) {
+                sail.shred(stats.sailDamage);
+            }
+        }
+        
+        // Heated shot sets the plank it hits on fire
+        if (stats.burnDuration > 0) {
+            this.ignitePlank(plankIndex, stats.burnDuration);
+        }
+        
+        if (attacker) {
+            this.lastAttacker = attacker;
+        }
+        this.attackedListeners.forEach(listener => listener(attacker, this));
+    }
+    
+    // Ram or collision impact at a world position
+    handleCollisionImpact(worldX: number, worldY: number, damage: number): void {
+        damage *= this.damageTaken;
+        const impact = this.worldToLocal(worldX, worldY);
+        this.damagePlank(this.findNearestPlank(impact.x, impact.y), damage);
+        this.damageModulesNear(impact.x, impact.y, damage);
+    }
+    
+    // Damage every module close to a ship-local point, less the further away it is
+    damageModulesNear(localX: number, localY: number, damage: number): void {
+        this.modules.forEach(module => {
+            if (!(module instanceof BaseModule)) return;
+            
+            const distance = Math.hypot(module.position.x - localX, module.position.y - localY);
+            if (distance < Ship.MODULE_HIT_RADIUS) {
+                module.takeDamage(damage * (1 - distance / Ship.MODULE_HIT_RADIUS));
+            }
+        });
+    }
+    
+    // Nearest module below full health within maxDistance of a ship-local point
+    findNearestDamagedModule(localX: number, localY: number, maxDistance: number): BaseModule | null {
+        let nearest: BaseModule | null = null;
+        let nearestDistance = maxDistance;
+        
+        this.modules.forEach(module => {
+            if (!(module instanceof BaseModule) || module.health >= module.maxHealth) return;
+            
+            const distance = Math.hypot(module.position.x - localX, module.position.y - localY);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearest = module;
+            }
+        });
+        
+        return nearest;
+    }
+    
+    // Boarders take over a module: its crew can no longer use it
+    seizeModule(moduleId: string): void {
+        this.seizedModules.add(moduleId);
+    }
+    
+    releaseModule(moduleId: string): void {
+        this.seizedModules.delete(moduleId);
+    }
+    
+    isModuleSeized(moduleId: string): boolean {
+        return this.seizedModules.has(moduleId);
+    }
+    
+    // Whether a module object has been seized (modules don't know their own ids)
+    private isSeized(module: BaseModule): boolean {
+        return Array.from(this.seizedModules).some(id => this.modules.get(id) === module);
+    }
+    
+    // Whether boarders hold any of the ship's wheels
+    isWheelSeized(): boolean {
+        return Array.from(this.wheels.keys()).some(id => this.seizedModules.has(id));
+    }
+    
+    // With every wheel smashed the rudder is stuck wherever it was
+    isSteeringDisabled(): boolean {
+        if (this.wheels.size === 0) return false;
+        return Array.from(this.wheels.values()).every(wheel => wheel.isDestroyed());
+    }
+    
+    // Find the sail closest to a ship-local position
+    findNearestSail(localX: number, localY: number): SailModule | null {
+        let nearest: SailModule | null = null;
+        let nearestDistanceSq = Infinity;
+        
+        this.sails.forEach(sail => {
+            const dx = sail.position.x - localX;
+            const dy = sail.position.y - localY;
+            const distanceSq = dx * dx + dy * dy;
+            if (distanceSq < nearestDistanceSq) {
+                nearestDistanceSq = distanceSq;
+                nearest = sail;
+            }
+        });
+        
+        return nearest;
+    }
+    
+    // Set a plank on fire for a number of frames
+    ignitePlank(plankIndex: number, duration: number): void {
+        if (plankIndex >= 0 && plankIndex < this.planks.length) {
+            const plank = this.planks[plankIndex];
+            plank.burning = Math.max(plank.burning, duration);
+        }
+    }
+    
+    // Burning planks lose health until the fire burns out or is put out by a repair
+    private updateFires(): void {
+        for (const plank of this.planks) {
+            if (plank.burning > 0) {
+                plank.burning--;
+                plank.health = Math.max(0, plank.health - Ship.BURN_DAMAGE);
+            }
+        }
+    }
+    
+    // Set the ammo that every cannon on one side will load next
+    setBroadsideAmmo(side: Broadside, ammo: AmmoType): void {
+        this.cannons.forEach(cannon => {
+            if (cannon.getBroadside() === side) {
+                cannon.selectAmmo(ammo);
+            }
+        });
+    }
+    
+    // Get the ammo selected for one side (the first cannon on that side decides)
+    getBroadsideAmmo(side: Broadside): AmmoType {
+        for (const cannon of this.cannons.values()) {
+            if (cannon.getBroadside() === side) {
+                return cannon.selectedAmmo;
+            }
+        }
+        return AmmoType.ROUND;
+    }
+    
+    // Find the closest damaged plank within range of a ship-local position (-1 if none)
+    findNearestDamagedPlank(localX: number, localY: number, maxDistance: number): number {
+        let nearestIndex = -1;
+        let nearestDistanceSq = maxDistance * maxDistance;
+        
+        this.planks.forEach((plank, index) => {
+            if (plank.health >= 100) return;
+            
+            const dx = plank.position.x - localX;
+            const dy = plank.position.y - localY;
+            const distanceSq = dx * dx + dy * dy;
+            if (distanceSq < nearestDistanceSq) {
+                nearestDistanceSq = distanceSq;
+                nearestIndex = index;
+            }
+        });
+        
+        return nearestIndex;
+    }
+    
+    // Restore health to a specific plank, returns the amount actually restored
+    repairPlank(plankIndex: number, amount: number): number {
+        if (plankIndex < 0 || plankIndex >= this.planks.length) {
+            return 0;
+        }
+        
+        const plank = this.planks[plankIndex];
+        const restored = Math.min(amount, 100 - plank.health);
+        plank.health += restored;
+        // Working on a plank puts out any fire on it
+        plank.burning = 0;
+        return restored;
     }
     
     // Take damage to a specific plank
@@ -383,8 +937,11 @@ export default class Ship {
         const visualSpeedFactor = 0.5 + Math.min(0.7, currentSpeed / 3);
         const rudderChangeRate = baseRudderChangeRate * visualSpeedFactor;
         
+        // A destroyed wheel locks the rudder at its current angle
+        const rudderInput = this.isSteeringDisabled() ? null : direction;
+        
         // Adjust rudder angle based on input with the dynamic change rate
-        switch (direction) {
+        switch (rudderInput) {
             case 'left':
                 this.rudderAngle = Math.max(-30, this.rudderAngle - rudderChangeRate);
                 break;
@@ -454,7 +1011,7 @@ export default class Ship {
         const sailFactor = minTurnFactor + ((maxTurnFactor - minTurnFactor) * avgSailPower);
         
         // Calculate final turning force
-        this.turningForce = this.rudderAngle * baseTurningPower * turnEffectiveness * sailFactor;
+        this.turningForce = this.rudderAngle * baseTurningPower * turnEffectiveness * sailFactor * this.getHandlingFactor();
         
         // Apply the turning force as a torque
         // We now apply force even when the ship is stationary (as long as sails are open)
@@ -598,39 +1155,109 @@ export default class Ship {
         });
         
         // Restore exact velocity from before rotation to prevent cumulative speed increases
-        Matter.Body.setVelocity(this.body, currentVelocity);    }    fireCannon(targetPosition?: { x: number, y: number }): void {
+        Matter.Body.setVelocity(this.body, currentVelocity);    }
+    
+    // Fire every cannon that bears on the target, from whichever broadside(s) can reach it
+    fireCannon(targetPosition?: { x: number, y: number }): void {
         // Check if we have any cannons
-        if (this.cannons.size === 0) {
+        if (this.cannons.size === 0 || !targetPosition) {
             return;
         }
-          // Fire all cannons
-        this.cannons.forEach(cannon => {
-            // Mark cannon as used (cannon.fire will check if it's loaded)
-            // No need to call cannon.use() since cannon.fire handles the loading check
-            
-            // Create a cannonball if we have a target position
-            if (targetPosition) {
-                // Convert cannon position from local to world coordinates
-                const cannonWorldPos = {
-                    x: this.position.x + Math.cos(this.body.angle) * cannon.position.x - Math.sin(this.body.angle) * cannon.position.y,
-                    y: this.position.y + Math.sin(this.body.angle) * cannon.position.x + Math.cos(this.body.angle) * cannon.position.y
-                };
-                
-                // Get the ship's current velocity to pass to the cannon
-                const shipVelocity = {
-                    x: this.body.velocity.x,
-                    y: this.body.velocity.y
-                };
-                
-                // Use the cannon's fire method to directly create the cannonball
-                const fired = cannon.fire(cannonWorldPos.x, cannonWorldPos.y, this.body.angle, shipVelocity);
-                
-                // Log successful firing
-                if (fired) {
-                    console.log('Cannon fired at world position:', cannonWorldPos);
+        
+        this.fireBroadside('port', targetPosition);
+        this.fireBroadside('starboard', targetPosition);
+    }
+    
+    // Fire one specific cannon (e.g. the one a player is manning)
+    fireSingleCannon(cannonId: string): boolean {
+        const cannon = this.cannons.get(cannonId);
+        if (!cannon || this.seizedModules.has(cannonId)) {
+            return false;
+        }
+        return this.fireCannonModule(cannon);
+    }
+    
+    // Id of the cannon whose crew position is closest to a ship-local point, within maxDistance
+    findNearestCannon(localX: number, localY: number, maxDistance: number): string | null {
+        let nearestId: string | null = null;
+        let nearestDistance = maxDistance;
+        
+        this.cannons.forEach((cannon, id) => {
+            const crewPos = cannon.getCrewPosition();
+            const distance = Math.hypot(crewPos.x - localX, crewPos.y - localY);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearestId = id;
+            }
+        });
+        
+        return nearestId;
+    }
+    
+    // Cannons on one side of the ship, ordered bow to stern
+    getBroadsideCannons(side: Broadside): CannonModule[] {
+        return Array.from(this.cannons.values())
+            .filter(cannon => cannon.getBroadside() === side)
+            .sort((a, b) => b.position.x - a.position.x);
+    }
+    
+    // Fire one broadside. With a target, only cannons whose arc covers it will fire.
+    // In ripple mode the shots are staggered bow to stern by rippleDelay frames.
+    fireBroadside(side: Broadside, targetPosition?: { x: number, y: number }): number {
+        let cannons = this.getBroadsideCannons(side).filter(cannon =>
+            cannon.isLoaded && !this.isSeized(cannon) && !this.pendingShots.some(shot => shot.cannon === cannon)
+        );
+        
+        if (targetPosition) {
+            const localTarget = this.worldToLocal(targetPosition.x, targetPosition.y);
+            cannons = cannons.filter(cannon => cannon.bearsOn(localTarget.x, localTarget.y));
+        }
+        
+        if (this.rippleFire) {
+            cannons.forEach((cannon, index) => {
+                if (index === 0) {
+                    // The first gun goes off straight away
+                    this.fireCannonModule(cannon);
+                } else {
+                    this.pendingShots.push({ cannon, delay: index * this.rippleDelay });
                 }
+            });
+        } else {
+            cannons.forEach(cannon => this.fireCannonModule(cannon));
+        }
+        
+        return cannons.length;
+    }
+    
+    // Fire a single cannon from its current world position
+    private fireCannonModule(cannon: CannonModule): boolean {
+        // Convert cannon position from local to world coordinates
+        const cannonWorldPos = {
+            x: this.position.x + Math.cos(this.body.angle) * cannon.position.x - Math.sin(this.body.angle) * cannon.position.y,
+            y: this.position.y + Math.sin(this.body.angle) * cannon.position.x + Math.cos(this.body.angle) * cannon.position.y
+        };
+        
+        // Get the ship's current velocity to pass to the cannon
+        const shipVelocity = {
+            x: this.body.velocity.x,
+            y: this.body.velocity.y
+        };
+        
+        // Use the cannon's fire method to directly create the cannonball (it checks if it's loaded)
+        return cannon.fire(cannonWorldPos.x, cannonWorldPos.y, this.body.angle, shipVelocity);
+    }
+    
+    // Count down queued ripple shots and fire the ones that are due
+    private updatePendingShots(): void {
+        this.pendingShots = this.pendingShots.filter(shot => {
+            if (shot.delay > 0) {
+                shot.delay--;
+                return true;
             }
-        });    }
+            this.fireCannonModule(shot.cannon);
+            return false;
+        });
+    }
       // Create a cannonball projectile
     private createCannonball(x: number, y: number, angle: number): void {
         // If we have a game reference, use it to add the cannonball
@@ -778,7 +1405,8 @@ export default class Ship {
             alignmentFactor = Math.max(0.15, alignmentFactor);
             
             // Only apply forward force if we have some sail efficiency
-            const finalForce = sailEfficiency > 0 ? this.forwardForce * alignmentFactor : 0;
+            // Flooded ships are sluggish, so scale by the sinking stage handling (and by how fast the hull is)
+            const finalForce = sailEfficiency > 0 ? this.forwardForce * alignmentFactor * this.getHandlingFactor() * this.speed : 0;
             
             // Force is always applied in the ship's forward direction
             // The wind and sail efficiency just determine how much force (speed) the ship gets
@@ -834,7 +1462,8 @@ export default class Ship {
         } else {
             // Fallback to simple boundary check if path isn't available
             // Based on hull points: bow, stern, etc.
-            if (rotatedX < -345 || rotatedX > 415 || rotatedY < -90 || rotatedY > 90) {
+            const p = this.hullPoints;
+            if (rotatedX < p.sternTip.x || rotatedX > p.bowTip.x || rotatedY < p.bowBottom.y || rotatedY > p.bow.y) {
                 return false; // Outside ship boundaries
             }
         }
@@ -855,6 +1484,13 @@ export default class Ship {
             return false; // Inside wheel obstacle
         }
         
+        // Check obstacle - pump
+        const pdx = rotatedX - Ship.PUMP.x;
+        const pdy = rotatedY - Ship.PUMP.y;
+        if (pdx * pdx + pdy * pdy < Ship.PUMP.r * Ship.PUMP.r) {
+            return false; // Inside pump obstacle
+        }
+        
         // Check obstacles - cannons
         for (const cannon of Ship.CANNONS) {
             if (rotatedX > cannon.x - cannon.w/2 && rotatedX < cannon.x + cannon.w/2 && 
@@ -891,12 +1527,27 @@ export default class Ship {
         ctx.save();
         ctx.translate(this.position.x, this.position.y);
         ctx.rotate(this.body.angle);
-        if (!this.path) this.path = Ship.createHullPath();
-        ctx.fillStyle = '#D2B48C';
-        ctx.strokeStyle = '#8B4513';
+        if (!this.path) this.path = Ship.createHullPath(this.hullPoints);
+        // Flooded ships settle lower in the water and list to one side; sinking ships fade away
+        this.applySinkingTransform(ctx);
+        ctx.fillStyle = this.hullColor;
+        ctx.strokeStyle = this.trimColor;
         ctx.lineWidth = 10;
         ctx.fill(this.path);
         ctx.stroke(this.path);
+        // Tint the deck with the water that has come aboard
+        if (this.waterLevel > 0) {
+            ctx.fillStyle = `rgba(51, 204, 255, ${Math.min(0.5, this.waterLevel / 200)})`;
+            ctx.fill(this.path);
+        }
+        // Draw plank damage on top of the hull outline
+        this.drawPlankDamage(ctx);
+        // Draw the bilge pump
+        this.drawPump(ctx);
+        // Fly our colors from the stern
+        if (this.flagColor) {
+            this.drawFlag(ctx, this.flagColor, this.flagEmblemColor);
+        }
         // Draw all modules (cannons, sails, wheel, etc.)
         for (const module of this.modules.values()) {
             if (typeof (module as any).draw === 'function') {
@@ -915,6 +1566,126 @@ export default class Ship {
         ctx.restore();
     }
     
+    // Scale and fade the ship-local context to show settling, listing and going under
+    private applySinkingTransform(ctx: CanvasRenderingContext2D): void {
+        // Settle: the hull sits lower (appears smaller) as it fills with water
+        const settle = this.waterLevel / 100;
+        // List: the hull rolls to one side, foreshortening its beam, once water is critical
+        const list = this.sinkingStage === SinkingStage.CRITICAL || this.sinkingStage === SinkingStage.SINKING
+            ? Math.max(0, (this.waterLevel - Ship.CRITICAL_WATER_LEVEL) / (100 - Ship.CRITICAL_WATER_LEVEL)) * 0.5 + this.sinkingProgress * 0.5
+            : 0;
+        
+        ctx.scale(1 - settle * 0.05 - this.sinkingProgress * 0.1, 1 - list * 0.35);
+        ctx.globalAlpha *= 1 - this.sinkingProgress * 0.85;
+    }
+    
+    // Draw the faction flag flying from the stern (ship-local context)
+    private drawFlag(ctx: CanvasRenderingContext2D, color: string, emblemColor: string | null): void {
+        ctx.save();
+        ctx.translate(this.hullPoints.stern.x + 20, 0);
+        // Flagpole
+        ctx.fillStyle = '#5C3317';
+        ctx.beginPath();
+        ctx.arc(0, 0, 5, 0, Math.PI * 2);
+        ctx.fill();
+        // Pennant streaming aft
+        ctx.fillStyle = color;
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(0, -12);
+        ctx.lineTo(-45, 0);
+        ctx.lineTo(0, 12);
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+        // Faction device on the pennant
+        if (emblemColor) {
+            ctx.fillStyle = emblemColor;
+            ctx.beginPath();
+            ctx.arc(-14, 0, 4, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        ctx.restore();
+    }
+    
+    // Draw the bilge pump fixture (ship-local context)
+    private drawPump(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.translate(Ship.PUMP.x, Ship.PUMP.y);
+        
+        // Pump housing
+        ctx.beginPath();
+        ctx.arc(0, 0, Ship.PUMP.r, 0, Math.PI * 2);
+        ctx.fillStyle = '#6b6b6b';
+        ctx.strokeStyle = '#333333';
+        ctx.lineWidth = 3;
+        ctx.fill();
+        ctx.stroke();
+        
+        // Pump handle
+        ctx.fillStyle = '#654321';
+        ctx.fillRect(-3, -Ship.PUMP.r - 10, 6, Ship.PUMP.r * 2 + 20);
+        
+        ctx.restore();
+    }
+    
+    // Draw damaged planks along the hull (ship-local context)
+    private drawPlankDamage(ctx: CanvasRenderingContext2D): void {
+        for (const plank of this.planks) {
+            if (plank.health >= 100 && plank.burning <= 0) continue;
+            
+            ctx.save();
+            ctx.translate(plank.position.x, plank.position.y);
+            ctx.rotate(plank.angle);
+            
+            // Darken the plank as it loses health, red once it starts leaking
+            const damage = 1 - plank.health / 100;
+            ctx.fillStyle = plank.health < Ship.LEAK_THRESHOLD
+                ? `rgba(180, 30, 0, ${0.4 + damage * 0.5})`
+                : `rgba(60, 30, 10, ${damage})`;
+            ctx.fillRect(-Ship.PLANK_SPACING / 2, -Ship.PLANK_THICKNESS / 2, Ship.PLANK_SPACING, Ship.PLANK_THICKNESS);
+            
+            // Draw a crack across broken planks
+            if (plank.health < Ship.LEAK_THRESHOLD) {
+                ctx.strokeStyle = '#000000';
+                ctx.lineWidth = 2;
+                ctx.beginPath();
+                ctx.moveTo(-Ship.PLANK_SPACING / 4, -Ship.PLANK_THICKNESS / 2);
+                ctx.lineTo(0, Ship.PLANK_THICKNESS / 2);
+                ctx.lineTo(Ship.PLANK_SPACING / 4, -Ship.PLANK_THICKNESS / 2);
+                ctx.stroke();
+            }
+            
+            // Draw flickering flames on burning planks
+            if (plank.burning > 0) {
+                const flicker = 0.6 + Math.random() * 0.4;
+                ctx.fillStyle = `rgba(255, ${Math.floor(120 * flicker)}, 0, ${flicker})`;
+                ctx.beginPath();
+                ctx.moveTo(-Ship.PLANK_SPACING / 3, 0);
+                ctx.quadraticCurveTo(0, -Ship.PLANK_THICKNESS * 2 * flicker, Ship.PLANK_SPACING / 3, 0);
+                ctx.closePath();
+                ctx.fill();
+            }
+            
+            ctx.restore();
+        }
+    }
+    
+    // Draw health bars for modules within range of a ship-local point (e.g. the player)
+    drawModuleHealthBars(ctx: CanvasRenderingContext2D, localX: number, localY: number, range: number): void {
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+        ctx.rotate(this.body.angle);
+        this.modules.forEach(module => {
+            if (!(module instanceof BaseModule)) return;
+            if (Math.hypot(module.position.x - localX, module.position.y - localY) < range) {
+                module.drawHealthBar(ctx);
+            }
+        });
+        ctx.restore();
+    }
+    
     // Placeholder for debug collision visualization
     // @ts-ignore
     drawDebugCollision(ctx: CanvasRenderingContext2D): void {
@@ -1188,7 +1959,7 @@ export default class Ship {
         
         // Create hull path if not already created
         if (!this.path) {
-            this.path = Ship.createHullPath();
+            this.path = Ship.createHullPath(this.hullPoints);
         }
         
         // Draw a semi-transparent fill for the hull area
@@ -1278,6 +2049,20 @@ export default class Ship {
         ctx.font = '12px Arial';
         ctx.fillText('Wheel', wx - 20, wy);
         
+        // Draw pump obstacle and its interaction reach
+        ctx.fillStyle = 'rgba(128, 128, 128, 0.7)'; // Gray for pump
+        ctx.beginPath();
+        ctx.arc(Ship.PUMP.x, Ship.PUMP.y, Ship.PUMP.r, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(51, 204, 255, 0.7)';
+        ctx.setLineDash([5, 5]);
+        ctx.beginPath();
+        ctx.arc(Ship.PUMP.x, Ship.PUMP.y, Ship.PUMP.reach, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = 'white';
+        ctx.fillText('Pump', Ship.PUMP.x - 15, Ship.PUMP.y - 20);
+        
         // Draw cannon obstacles
         ctx.fillStyle = 'rgba(169, 169, 169, 0.7)'; // Gray for cannons
         for (const cannon of Ship.CANNONS) {
@@ -1397,6 +2182,10 @@ export default class Ship {
     
     // Destroy the ship and all its modules
     destroy(): void {
+        // Only tear the ship down once
+        if (this.destroyed) return;
+        this.destroyed = true;
+        
         // Clean up and notify all modules that the ship is being destroyed
         
         // First handle the specialized module collections
@@ -1426,18 +2215,24 @@ export default class Ship {
         this.sails.clear();
         this.wheels.clear();
         this.modules.clear();
+        this.pendingShots = [];
         
-        // Clean up physics body if needed
-        if (this.body) {
-            // In a real implementation, we would tell the physics world to remove this body
-            // Assuming a method exists in the game to handle this
-            if (this.game && typeof this.game.removeBody === 'function') {
-                this.game.removeBody(this.body);
-            }
+        // Take the hull and its planks out of the physics world
+        if (this.body && this.game && typeof this.game.removeBody === 'function') {
+            this.getPhysicsBodies().forEach(body => this.game.removeBody(body));
         }
         
         // Set health to 0 to ensure the ship is marked as destroyed
         this.health = 0;
+        
+        // A ship destroyed outright skips straight to the bottom
+        if (this.sinkingStage !== SinkingStage.SUNK) {
+            this.setSinkingStage(SinkingStage.SUNK);
+        }
+    }
+    
+    isDestroyed(): boolean {
+        return this.destroyed;
     }
 
     // Toggle player between steering wheel and walking on deck
@@ -1533,9 +2328,21 @@ export default class Ship {
         this.position.x = this.body.position.x;
         this.position.y = this.body.position.y;
         
+        // Keep plank bodies attached to the hull
+        this.updatePlankBodies();
+        
         // Update water level based on damage
         this.updateWaterLevel();
         
+        // Progress the ship going under
+        this.updateSinking();
+        
+        // Burn any planks that are on fire
+        this.updateFires();
+        
+        // Fire any queued ripple shots
+        this.updatePendingShots();
+        
         // Update all modules
         this.updateModules();
     }
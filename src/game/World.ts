@@ -1,100 +1,395 @@
 import Matter from 'matter-js';
+import { COLORS } from '../assets/colors';
+import { createLoopingNoise, createRandom, hashString } from '../utils/helpers';
+import { PhysicsManager } from '../physics/PhysicsManager';
+import { EnemyArchetype } from './Archetypes';
+import type Ship from './Ship';
+import { AIBehavior, Inventory } from '../types';
 
-interface Island {
+export interface Island {
+    position: { x: number, y: number };    // Centre
+    radius: number;                        // Furthest the coastline reaches from the centre
+    coastline: { x: number, y: number }[]; // Water's edge, around the outside of the beach
+    interior: { x: number, y: number }[];  // Where the sand gives way to land
+    body: Matter.Body;                     // Convex parts that together match the coastline
+}
+
+// A shipping lane merchants sail back and forth along, calling at an anchorage off each island
+export interface TradeRoute {
+    ports: { x: number, y: number }[];
+}
+
+// An AI ship put away while the part of the ocean it is in is unloaded, to be put back when the player returns
+export interface SavedShip {
+    role: 'warship' | 'merchant' | 'islander';
+    archetype: EnemyArchetype | null; // Warships: what she was built as
+    route: TradeRoute | null;         // Merchants: the route she plies, the port she is bound for and what's in her hold
+    patrol: { x: number, y: number }[] | null; // Islanders: the circuit round their island (nextPort is the point they are bound for)
+    nextPort: number;
+    cargo: Inventory | null;
+    captured: boolean;                // Merchants: taken as a prize
     position: { x: number, y: number };
-    size: { width: number, height: number };
-    body: Matter.Body;
+    angle: number;
+    planks: { health: number, burning: number }[];                     // Damage to the hull and fires aboard, plank by plank
+    modules: Record<string, { health: number, destroyed: boolean }>;  // Damage to the wheel, sails and guns, by module id
+    waterLevel: number;
+    behavior: AIBehavior;             // What the captain was doing, who at, and how many boarders they had left
+    target: Ship | null;
+    boardersAboard: number;
 }
 
+// A square of ocean, generated from the world seed when the player comes near and unloaded once they are far away
+export interface Chunk {
+    x: number;                // Chunk coordinates: world position divided by CHUNK_SIZE, rounded down
+    y: number;
+    key: string;
+    islands: Island[];
+    tradeRoutes: TradeRoute[];
+    firstVisit: boolean;      // Never loaded before, so its merchants have yet to put to sea
+    savedShips: SavedShip[];  // Ships saved here while it was unloaded, to be put back
+}
+
+export type ChunkListener = (chunk: Chunk) => void;
+
 export default class WorldManager {
-    private engine: Matter.Engine;
-    private world: Matter.World;
+    private physics: PhysicsManager; // Islands are terrain in the shared physics world
     private windDirection: number = 0; // In radians - represents the direction wind is blowing TOWARDS (vector convention)
     private windPower: number = 1; // Wind strength
-    private islands: Island[] = [];
-    private boundaries: Matter.Body[] = [];
+    private chunks = new Map<string, Chunk>();            // Loaded chunks, by key
+    private islands: Island[] = [];                       // Islands in the loaded chunks
+    private visitedChunks = new Set<string>();            // Keys of every chunk that has ever been loaded
+    private savedShips = new Map<string, SavedShip[]>();  // Ships waiting in unloaded chunks, by chunk key
+    private focusChunk: string | null = null;             // Key of the chunk the loaded area was last centred on
+    private chunkListeners: ChunkListener[] = [];
+    readonly seed: number; // Everything random about the world comes from this, so a seed always gives the same map
+    
+    // Where the player's ship starts; islands are kept well clear of it
+    static readonly SPAWN_POINT = { x: 400, y: 350 };
+    private static readonly SPAWN_CLEARANCE = 900;
+    
+    // The ocean is streamed in square chunks around the player
+    static readonly CHUNK_SIZE = 2500;
+    private static readonly LOAD_RADIUS = 1;   // Chunks loaded in each direction around the player's
+    private static readonly UNLOAD_RADIUS = 2; // Chunks further away than this are unloaded (the gap stops chunks on an edge loading and unloading over and over)
     
-    constructor() {
-        this.engine = Matter.Engine.create();
-        this.world = this.engine.world;
+    // Island generation
+    private static readonly MAX_ISLANDS_PER_CHUNK = 2;
+    private static readonly ISLAND_MIN_RADIUS = 150;
+    private static readonly ISLAND_MAX_RADIUS = 320;
+    private static readonly COASTLINE_POINTS = 48;
+    private static readonly BEACH_WIDTH = 0.2;    // Typical fraction of an island's radius that is sand
+    private static readonly CHANNEL_WIDTH = 500;  // Open water left between neighbouring islands
+    private static readonly PLACEMENT_ATTEMPTS = 50;
+    
+    constructor(physics: PhysicsManager, seed: number = Math.floor(Math.random() * 4294967296)) {
+        this.physics = physics;
+        this.seed = seed;
         this.setupWorld();
     }
 
     private setupWorld() {
-        // Setup initial world properties
-        this.setupBoundaries();
-        this.generateIslands(5); // Generate 5 random islands
+        // Setup initial world properties (chunks are loaded once the player's position is known)
         this.setupWind();
     }
     
-    private setupBoundaries() {
-        // Create boundary walls to keep objects within the game area
-        const worldSize = 5000; // 5000x5000 world size
-        const wallThickness = 50;
+    // Load the chunks around a position (the player's) and unload those left far behind.
+    // Only does any work when the position has moved into a different chunk.
+    updateChunks(focus: { x: number, y: number }): void {
+        const centreX = Math.floor(focus.x / WorldManager.CHUNK_SIZE);
+        const centreY = Math.floor(focus.y / WorldManager.CHUNK_SIZE);
+        const focusKey = WorldManager.chunkKey(centreX, centreY);
+        if (focusKey === this.focusChunk) return;
+        this.focusChunk = focusKey;
         
-        // Top boundary
-        const top = Matter.Bodies.rectangle(worldSize/2, -wallThickness/2, worldSize, wallThickness, { isStatic: true });
+        for (const chunk of [...this.chunks.values()]) {
+            if (Math.max(Math.abs(chunk.x - centreX), Math.abs(chunk.y - centreY)) > WorldManager.UNLOAD_RADIUS) {
+                this.unloadChunk(chunk);
+            }
+        }
+        for (let y = centreY - WorldManager.LOAD_RADIUS; y <= centreY + WorldManager.LOAD_RADIUS; y++) {
+            for (let x = centreX - WorldManager.LOAD_RADIUS; x <= centreX + WorldManager.LOAD_RADIUS; x++) {
+                if (!this.chunks.has(WorldManager.chunkKey(x, y))) {
+                    this.loadChunk(x, y);
+                }
+            }
+        }
+    }
+    
+    // Get notified whenever a chunk is loaded, to put its ships to sea (returns an unsubscribe function)
+    onChunkLoaded(listener: ChunkListener): () => void {
+        this.chunkListeners.push(listener);
+        return () => {
+            this.chunkListeners = this.chunkListeners.filter(l => l !== listener);
+        };
+    }
+    
+    // Whether a position lies in a loaded chunk. Ships outside one should be saved and taken out of the game.
+    isLoaded(point: { x: number, y: number }): boolean {
+        return this.chunks.has(WorldManager.chunkKeyAt(point));
+    }
+    
+    // Keep a ship in the chunk it is in until that chunk is next loaded
+    saveShip(ship: SavedShip): void {
+        const key = WorldManager.chunkKeyAt(ship.position);
+        const saved = this.savedShips.get(key) ?? [];
+        saved.push(ship);
+        this.savedShips.set(key, saved);
+    }
+    
+    private loadChunk(x: number, y: number): void {
+        const key = WorldManager.chunkKey(x, y);
+        const islands = this.generateIslands(x, y);
+        const chunk: Chunk = {
+            x,
+            y,
+            key,
+            islands,
+            tradeRoutes: this.generateTradeRoutes(islands),
+            firstVisit: !this.visitedChunks.has(key),
+            savedShips: this.savedShips.get(key) ?? []
+        };
+        this.visitedChunks.add(key);
+        this.savedShips.delete(key);
         
-        // Bottom boundary
-        const bottom = Matter.Bodies.rectangle(worldSize/2, worldSize + wallThickness/2, worldSize, wallThickness, { isStatic: true });
+        islands.forEach(island => this.physics.register('terrain', island.body, island));
+        this.chunks.set(key, chunk);
+        this.islands = [...this.chunks.values()].flatMap(loaded => loaded.islands);
         
-        // Left boundary
-        const left = Matter.Bodies.rectangle(-wallThickness/2, worldSize/2, wallThickness, worldSize, { isStatic: true });
+        this.chunkListeners.forEach(listener => listener(chunk));
+    }
+    
+    // Islands are regenerated from the seed when the chunk is next loaded, so only its ships need saving (see saveShip)
+    private unloadChunk(chunk: Chunk): void {
+        chunk.islands.forEach(island => this.physics.removeBody(island.body));
+        this.chunks.delete(chunk.key);
+        this.islands = [...this.chunks.values()].flatMap(loaded => loaded.islands);
+    }
+    
+    private static chunkKey(x: number, y: number): string {
+        return `${x},${y}`;
+    }
+    
+    private static chunkKeyAt(point: { x: number, y: number }): string {
+        return WorldManager.chunkKey(Math.floor(point.x / WorldManager.CHUNK_SIZE), Math.floor(point.y / WorldManager.CHUNK_SIZE));
+    }
+    
+    // A chunk's islands. Each chunk draws from its own random stream, so it comes out the same
+    // whatever order the chunks are visited in.
+    private generateIslands(chunkX: number, chunkY: number): Island[] {
+        const random = this.getRandomStream(`islands:${WorldManager.chunkKey(chunkX, chunkY)}`);
+        // Islands stay half a channel inside the chunk's edges, so they never crowd those in the next chunk
+        const margin = WorldManager.ISLAND_MAX_RADIUS + WorldManager.CHANNEL_WIDTH / 2;
+        const span = WorldManager.CHUNK_SIZE - margin * 2;
+        const count = 1 + Math.floor(random() * WorldManager.MAX_ISLANDS_PER_CHUNK);
+        const islands: Island[] = [];
         
-        // Right boundary
-        const right = Matter.Bodies.rectangle(worldSize + wallThickness/2, worldSize/2, wallThickness, worldSize, { isStatic: true });
+        for (let i = 0; i < count; i++) {
+            // Try spots until one is clear of the other islands and the spawn point (or give up on this island)
+            for (let attempt = 0; attempt < WorldManager.PLACEMENT_ATTEMPTS; attempt++) {
+                const radius = WorldManager.ISLAND_MIN_RADIUS + random() * (WorldManager.ISLAND_MAX_RADIUS - WorldManager.ISLAND_MIN_RADIUS);
+                const position = {
+                    x: chunkX * WorldManager.CHUNK_SIZE + margin + random() * span,
+                    y: chunkY * WorldManager.CHUNK_SIZE + margin + random() * span
+                };
+                
+                const spawnDistance = Math.hypot(position.x - WorldManager.SPAWN_POINT.x, position.y - WorldManager.SPAWN_POINT.y);
+                const crowded = islands.some(other =>
+                    Math.hypot(position.x - other.position.x, position.y - other.position.y) < other.radius + radius + WorldManager.CHANNEL_WIDTH
+                );
+                if (spawnDistance < WorldManager.SPAWN_CLEARANCE + radius || crowded) {
+                    continue;
+                }
+                
+                islands.push(WorldManager.createIsland(position, radius, random));
+                break;
+            }
+        }
+        return islands;
+    }
+    
+    // A noise-shaped island: a ragged coastline, a beach of varying width inside it, and land in the middle
+    private static createIsland(position: { x: number, y: number }, radius: number, random: () => number): Island {
+        const shape = createLoopingNoise(random, 7);   // Headlands and bays
+        const detail = createLoopingNoise(random, 19); // Smaller coves
+        const beach = createLoopingNoise(random, 11);  // Wider and narrower stretches of sand
         
-        this.boundaries = [top, bottom, left, right];
-        Matter.World.add(this.world, this.boundaries);
+        const coastline: { x: number, y: number }[] = [];
+        const interior: { x: number, y: number }[] = [];
+        let furthest = 0;
+        for (let i = 0; i < WorldManager.COASTLINE_POINTS; i++) {
+            const t = i / WorldManager.COASTLINE_POINTS;
+            const angle = t * Math.PI * 2;
+            const coast = radius * (0.8 + 0.22 * shape(t) + 0.06 * detail(t));
+            const land = coast * (1 - WorldManager.BEACH_WIDTH * (1 + 0.5 * beach(t)));
+            coastline.push({ x: position.x + Math.cos(angle) * coast, y: position.y + Math.sin(angle) * coast });
+            interior.push({ x: position.x + Math.cos(angle) * land, y: position.y + Math.sin(angle) * land });
+            furthest = Math.max(furthest, coast);
+        }
+        
+        // Matter bodies must be convex, so the island is built from convex pieces of its outline
+        const parts = WorldManager.decompose(position, coastline).map(vertices =>
+            Matter.Body.create({
+                position: Matter.Vertices.centre(vertices),
+                vertices: Matter.Vertices.clockwiseSort(vertices)
+            })
+        );
+        const body = Matter.Body.create({
+            parts,
+            isStatic: true,
+            label: 'island'
+        });
+        
+        return { position, radius: furthest, coastline, interior, body };
     }
     
-    private generateIslands(count: number) {
-        const worldSize = 5000;
+    // Split an outline that can all be seen from its centre into convex pieces: fan it into wedges
+    // from the centre, growing each wedge along the coast for as long as it stays convex
+    private static decompose(centre: { x: number, y: number }, outline: { x: number, y: number }[]): { x: number, y: number }[][] {
+        const count = outline.length;
+        const wedge = (from: number, to: number) => {
+            const points = [{ x: centre.x, y: centre.y }];
+            for (let i = from; i <= to; i++) {
+                points.push({ x: outline[i % count].x, y: outline[i % count].y });
+            }
+            return points;
+        };
         
-        for (let i = 0; i < count; i++) {
-            // Generate random island position and size
-            const size = {
-                width: 200 + Math.random() * 400,
-                height: 200 + Math.random() * 400
-            };
-            
-            const position = {
-                x: 500 + Math.random() * (worldSize - 1000), // Keep away from boundaries
-                y: 500 + Math.random() * (worldSize - 1000)
-            };
+        const pieces: { x: number, y: number }[][] = [];
+        let start = 0;
+        while (start < count) {
+            let end = start + 1;
+            while (end < count && WorldManager.isConvex(wedge(start, end + 1))) {
+                end++;
+            }
+            pieces.push(wedge(start, end));
+            start = end;
+        }
+        return pieces;
+    }
+    
+    // Whether a polygon turns the same way at every corner
+    private static isConvex(polygon: { x: number, y: number }[]): boolean {
+        let sign = 0;
+        for (let i = 0; i < polygon.length; i++) {
+            const a = polygon[i];
+            const b = polygon[(i + 1) % polygon.length];
+            const c = polygon[(i + 2) % polygon.length];
+            const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+            if (cross === 0) continue;
+            if (sign === 0) {
+                sign = Math.sign(cross);
+            } else if (Math.sign(cross) !== sign) {
+                return false;
+            }
+        }
+        return true;
+    }
+    
+    // A seeded generator for one part of the world. Each part gets its own stream, so drawing more numbers
+    // for one (say, an extra reinforcement) never changes what another (the islands) comes out as.
+    getRandomStream(name: string): () => number {
+        return createRandom(hashString(`${this.seed}:${name}`));
+    }
+    
+    // Whether a circle of open water is clear of every loaded island's coastline
+    isClearWater(point: { x: number, y: number }, clearance: number): boolean {
+        return this.islands.every(island =>
+            Math.hypot(point.x - island.position.x, point.y - island.position.y) > island.radius + clearance
+        );
+    }
+    
+    // Draw the islands: a line of surf, the beach, then the land inside it
+    draw(ctx: CanvasRenderingContext2D): void {
+        const tracePolygon = (points: { x: number, y: number }[]) => {
+            ctx.beginPath();
+            ctx.moveTo(points[0].x, points[0].y);
+            for (let i = 1; i < points.length; i++) {
+                ctx.lineTo(points[i].x, points[i].y);
+            }
+            ctx.closePath();
+        };
+        
+        ctx.save();
+        ctx.lineJoin = 'round';
+        for (const island of this.islands) {
+            tracePolygon(island.coastline);
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+            ctx.lineWidth = 12;
+            ctx.stroke();
+            ctx.fillStyle = COLORS.sand;
+            ctx.fill();
             
-            // Create island body
-            const body = Matter.Bodies.rectangle(position.x, position.y, size.width, size.height, { 
-                isStatic: true,
-                label: 'island'
+            tracePolygon(island.interior);
+            ctx.fillStyle = COLORS.land;
+            ctx.fill();
+        }
+        ctx.restore();
+    }
+    
+    // Link every island in a chunk to its nearest neighbour there with a trade route
+    private generateTradeRoutes(islands: Island[]): TradeRoute[] {
+        const tradeRoutes: TradeRoute[] = [];
+        const linked = new Set<string>();
+        
+        islands.forEach((island, i) => {
+            let nearest = -1;
+            let nearestDistance = Infinity;
+            islands.forEach((other, j) => {
+                if (i === j) return;
+                const distance = Math.hypot(other.position.x - island.position.x, other.position.y - island.position.y);
+                if (distance < nearestDistance) {
+                    nearestDistance = distance;
+                    nearest = j;
+                }
             });
             
-            // Add island to the world
-            this.islands.push({ position, size, body });
-            Matter.World.add(this.world, body);
-        }
+            // Each pair of islands only gets one route
+            const key = `${Math.min(i, nearest)}-${Math.max(i, nearest)}`;
+            if (nearest === -1 || linked.has(key)) return;
+            linked.add(key);
+            
+            const other = islands[nearest];
+            tradeRoutes.push({
+                ports: [this.getAnchorage(island, other.position), this.getAnchorage(other, island.position)]
+            });
+        });
+        return tradeRoutes;
     }
     
-    // Time when the wind system was initialized
-    private windSystemStartTime: number = Date.now();
+    // Where ships anchor off an island: on the side facing where they are coming from, clear of the shore
+    private getAnchorage(island: Island, toward: { x: number, y: number }): { x: number, y: number } {
+        const direction = Math.atan2(toward.y - island.position.y, toward.x - island.position.x);
+        const distance = island.radius + 350;
+        return {
+            x: island.position.x + Math.cos(direction) * distance,
+            y: island.position.y + Math.sin(direction) * distance
+        };
+    }
+    
+    // Wind is seeded too, and advances by the fixed simulation step (PhysicsManager.TIME_STEP) each update
+    // rather than by wall-clock time, so a seed always blows the same way
+    private windRandom: () => number = Math.random;
+    private windPhase: number = 0; // Where in its cycle the wind starts (0-1)
+    private windTicks: number = 0; // Simulation steps since the wind system was initialized
     
     private setupWind() {
-        // Initialize wind with a random direction
-        this.windDirection = Math.random() * Math.PI * 2;
+        // Initialize wind with a seeded direction
+        this.windRandom = this.getRandomStream('wind');
+        this.windPhase = this.windRandom();
+        this.windDirection = this.windPhase * Math.PI * 2;
         this.windPower = 1.0; // Start with moderate wind power
-        this.windSystemStartTime = Date.now();
+        this.windTicks = 0;
     }
     
     public updateWind() {
-        // Calculate time since the wind system started, in milliseconds
-        const currentTime = Date.now();
-        const elapsedTime = currentTime - this.windSystemStartTime;
+        // Calculate simulated time since the wind system started, in milliseconds
+        const elapsedTime = this.windTicks++ * PhysicsManager.TIME_STEP;
         
         // Full cycle is 5 minutes (300000 ms)
         const cycleDuration = 5 * 60 * 1000; 
         
         // Calculate position in the cycle as a value from 0 to 1
-        const cyclePosition = (elapsedTime % cycleDuration) / cycleDuration;
+        const cyclePosition = (this.windPhase + (elapsedTime % cycleDuration) / cycleDuration) % 1;
         
         // Set wind direction to rotate clockwise (2π radians per cycle)
         this.windDirection = cyclePosition * Math.PI * 2;
@@ -123,7 +418,7 @@ export default class WorldManager {
         this.windPower = minWindPower + northSouthAlignment * (2.0 - minWindPower);
         
         // Add a small random variation to make it less mechanical
-        this.windPower += (Math.random() - 0.5) * 0.1;
+        this.windPower += (this.windRandom() - 0.5) * 0.1;
         
         // Clamp wind power to reasonable values
         if (this.windPower < 1.5) this.windPower = 1.5; // 75% of maximum
@@ -138,23 +433,13 @@ export default class WorldManager {
         return this.windPower;
     }
 
-    public update() {
-        Matter.Engine.update(this.engine);
+    // Blow the wind, and stream the ocean around a position (the player's)
+    public update(focus: { x: number, y: number }) {
         this.updateWind();
-    }
-
-    public addEntity(entity: Matter.Body) {
-        Matter.World.add(this.world, entity);
-    }
-
-    public removeEntity(entity: Matter.Body) {
-        Matter.World.remove(this.world, entity);
-    }
-    
-    public getEngine(): Matter.Engine {
-        return this.engine;
+        this.updateChunks(focus);
     }
     
+    // Islands in the loaded chunks
     public getIslands(): Island[] {
         return this.islands;
     }
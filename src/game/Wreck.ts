@@ -0,0 +1,51 @@
+import Ship, { HullPoints } from './Ship';
+
+// The remains of a sunken ship, left floating on the surface for a while
+export default class Wreck {
+    position: { x: number; y: number };
+    angle: number;
+    lifetime: number; // How long the wreck has existed (in frames)
+    maxLifetime: number;
+    private path: Path2D;
+
+    constructor(x: number, y: number, angle: number, hullPoints: HullPoints) {
+        this.position = { x, y };
+        this.angle = angle;
+        this.lifetime = 0;
+        this.maxLifetime = 3600; // 60 seconds at 60fps
+
+        // Use the same hull outline as the ship that went down
+        this.path = Ship.createHullPath(hullPoints);
+    }
+
+    update(): boolean {
+        // Update lifetime
+        this.lifetime++;
+
+        // Return true if the wreck is still around, false if it should be removed
+        return this.lifetime < this.maxLifetime;
+    }
+
+    draw(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+
+        // Fade out over the last quarter of the wreck's lifetime
+        const fadeStart = this.maxLifetime * 0.75;
+        const fade = this.lifetime > fadeStart
+            ? 1 - (this.lifetime - fadeStart) / (this.maxLifetime - fadeStart)
+            : 1;
+        ctx.globalAlpha = fade;
+
+        // Draw the submerged hull as a dark shape just below the surface
+        ctx.rotate(this.angle);
+        ctx.scale(0.9, 0.6);
+        ctx.fillStyle = 'rgba(60, 40, 20, 0.35)';
+        ctx.strokeStyle = 'rgba(40, 25, 10, 0.5)';
+        ctx.lineWidth = 6;
+        ctx.fill(this.path);
+        ctx.stroke(this.path);
+
+        ctx.restore();
+    }
+}
@@ -0,0 +1,456 @@
+// AICaptain.ts - Sails a ship using only the controls a player has at the wheel
+import Ship from '../Ship';
+import { areAllied, FactionRelations } from '../Factions';
+import { Broadside } from '../modules';
+import { AIBehavior, SinkingStage } from '../../types';
+import { AIBehaviorConfig, AI_BEHAVIOR_PROFILES, BehaviorStateMachine } from './BehaviorStateMachine';
+import { NavigationPlanner } from './NavigationPlanner';
+import { layGun, leadTarget } from './Gunnery';
+
+export class AICaptain {
+    ship: Ship;
+    target: Ship | null = null; // Ship we are chasing and shooting at (or running from)
+    behavior: BehaviorStateMachine;
+    navigation: NavigationPlanner | null = null; // Route planner; without one we sail in straight lines
+    destination: { x: number, y: number } | null = null; // Where we are headed when not fighting
+
+    // How far off the desired heading (radians) before we put the rudder over
+    private static readonly HEADING_TOLERANCE = Math.PI / 36; // 5 degrees
+    // Sail trim tolerance (degrees) before we rotate the sails
+    private static readonly TRIM_TOLERANCE = 2.5;
+    // Frames between sail open/close orders (the player gets one 10% step per key press)
+    private static readonly SAIL_ORDER_INTERVAL = 15;
+    // Only shoot when the target is inside this fraction of our guns' current range
+    private static readonly FIRING_RANGE_MARGIN = 1.1;
+    // Beyond this distance from its station an escort sails straight for it
+    private static readonly STATION_CATCH_UP_DISTANCE = 400;
+    // Largest angle (radians) an escort turns off the leader's heading to close its station
+    private static readonly STATION_CORRECTION_ANGLE = Math.PI / 6;
+    // Extra sail (% open) per unit an escort has fallen behind its station
+    private static readonly STATION_SAIL_GAIN = 0.1;
+    // Frames between firing orders
+    private static readonly FIRE_ORDER_INTERVAL = 30;
+    // A fleeing ship only shoots back when the enemy is this close (fraction of gun range)
+    private static readonly SELF_DEFENCE_RANGE = 0.5;
+    private static readonly DEFAULT_ENGAGEMENT_RANGE = 600;
+    // At accuracy 0, guns are laid up to this fraction of the range off the mark
+    private static readonly AIM_SPREAD = 0.15;
+    // Beyond this multiple of the engagement range we sail straight at the target
+    private static readonly CLOSING_RANGE_FACTOR = 2;
+    // Largest angle (radians) we turn in or out from abeam to correct the range
+    private static readonly RANGE_CORRECTION_ANGLE = Math.PI / 4;
+    // Sail (% open) while manoeuvring alongside, so we don't overshoot the target
+    private static readonly BATTLE_SAIL = 60;
+    // Distance (centre to centre) we hold alongside a ship we mean to board
+    private static readonly BOARDING_RANGE = 220;
+    // Boarders can only cross when the hulls are this close and moving together
+    private static readonly BOARDING_DISTANCE = 300;
+    private static readonly MAX_BOARDING_SPEED = 2;
+    // Sail settings (% open) for ships that aren't fighting
+    private static readonly CRUISING_SAIL: Record<AIBehavior, number> = {
+        [AIBehavior.PASSIVE]: 40,
+        [AIBehavior.NEUTRAL]: 60,
+        [AIBehavior.AGGRESSIVE]: 60,
+        [AIBehavior.FLEEING]: 100
+    };
+
+    engagementRange: number = AICaptain.DEFAULT_ENGAGEMENT_RANGE; // Distance we try to hold the target at, abeam
+    boardersAboard: number; // Crew still aboard who can be sent across in a boarding party
+    accuracy: number = 1;     // 0-1: how closely our gun crews lay their guns on the target (1 = dead on)
+    reactionTime: number = 0; // Frames before we respond to a new target or threat
+
+    private sailOrderTimer: number = 0;
+    private fireOrderTimer: number = 0;
+    private engagedSide: Broadside | null = null; // Broadside we are currently fighting with
+    private aimError: { x: number, y: number } = { x: 0, y: 0 }; // How far off the mark the guns are being laid
+    private reactingTo: Ship | null = null; // Target the reaction timer was started for
+    private reactionTimer: number = 0;
+
+    constructor(ship: Ship, config: AIBehaviorConfig = AI_BEHAVIOR_PROFILES.raider) {
+        this.ship = ship;
+        this.behavior = new BehaviorStateMachine(config);
+        this.boardersAboard = config.boardingPartySize;
+        
+        // Whoever shoots at us becomes the ship we fight or flee from
+        this.ship.onAttacked(attacker => {
+            // Stray shots from our allies are forgiven
+            if (attacker && areAllied(attacker.faction, this.ship.faction)) return;
+            if (attacker && attacker !== this.ship) {
+                this.target = attacker;
+            }
+            this.behavior.onAttacked();
+        });
+    }
+
+    // Issue this frame's orders
+    update(windDirection: number): void {
+        if (this.ship.isSunk() || this.ship.sinkingStage === SinkingStage.SINKING) {
+            return;
+        }
+
+        // Forget targets that have gone to the bottom
+        if (this.target && this.target.isSunk()) {
+            this.target = null;
+        }
+        const distance = this.target
+            ? Math.hypot(this.target.position.x - this.ship.position.x, this.target.position.y - this.ship.position.y)
+            : null;
+
+        const state = this.behavior.update({
+            seaworthiness: this.ship.getSeaworthiness(),
+            distanceToTarget: distance
+        });
+
+        // A new target or threat takes a moment to react to: carry on as we were until then
+        if (this.target !== this.reactingTo) {
+            this.reactingTo = this.target;
+            this.reactionTimer = this.target ? this.reactionTime : 0;
+            if (distance !== null) {
+                this.rollAimError(distance);
+            }
+        }
+        if (this.reactionTimer > 0) {
+            this.reactionTimer--;
+            this.cruise(state, windDirection);
+            return;
+        }
+
+        // Each behaviour has its own steering and firing policy
+        switch (state) {
+            case AIBehavior.AGGRESSIVE:
+                if (this.target && distance !== null && distance < this.behavior.config.engageRange) {
+                    this.attack(this.target, windDirection);
+                } else {
+                    this.cruise(state, windDirection);
+                }
+                break;
+            case AIBehavior.FLEEING:
+                if (this.target) {
+                    this.flee(this.target, windDirection);
+                } else {
+                    this.cruise(state, windDirection);
+                }
+                break;
+            case AIBehavior.NEUTRAL:
+            case AIBehavior.PASSIVE:
+                // Hold course and never open fire
+                this.cruise(state, windDirection);
+                break;
+        }
+    }
+
+    // Look for a fight: pick the nearest ship our faction is hostile to, unless we're already busy with one.
+    // Only ships out hunting (or neutral ones that go after their faction's enemies on sight) look.
+    lookout(ships: Ship[], relations: FactionRelations): void {
+        const state = this.behavior.state;
+        const hunting = state === AIBehavior.AGGRESSIVE ||
+            (state === AIBehavior.NEUTRAL && this.behavior.config.engageHostiles);
+        if (!hunting) return;
+
+        // Stick with a target that's still afloat and within reach
+        if (this.target && !this.target.isSunk() && this.distanceTo(this.target) < this.behavior.config.engageRange) {
+            return;
+        }
+
+        let nearest: Ship | null = null;
+        let nearestDistance = this.behavior.config.engageRange;
+        for (const ship of ships) {
+            if (ship === this.ship || ship.isSunk() || !relations.isHostile(this.ship.faction, ship.faction)) continue;
+            const distance = this.distanceTo(ship);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearest = ship;
+            }
+        }
+
+        if (nearest) {
+            this.target = nearest;
+            this.behavior.engage();
+        }
+    }
+
+    // Close with the target, then hold it abeam of a loaded broadside at the engagement range
+    protected attack(target: Ship, windDirection: number): void {
+        const dx = target.position.x - this.ship.position.x;
+        const dy = target.position.y - this.ship.position.y;
+        const distance = Math.hypot(dx, dy);
+        const bearing = Math.atan2(dy, dx);
+        const side = this.chooseBroadside(target);
+        // Once the target is softened up, come right alongside to board instead of standing off
+        const range = this.isBoarding(target)
+            ? AICaptain.BOARDING_RANGE
+            : Math.min(this.engagementRange, this.getMaxGunRange());
+
+        if (distance > range * AICaptain.CLOSING_RANGE_FACTOR) {
+            // Too far to fight: close with them, around any islands in the way
+            this.steerTowardHeading(this.headingTo(target.position, windDirection) ?? bearing);
+            this.setSail(100);
+        } else {
+            // Put the target abeam, turning in when too far and out when too close
+            const rangeError = Math.max(-1, Math.min(1, (distance - range) / range));
+            const correction = rangeError * AICaptain.RANGE_CORRECTION_ANGLE;
+            // Port is the ship's -y side, so the target is to port when we head 90° clockwise of it
+            const heading = side === 'port'
+                ? bearing + Math.PI / 2 - correction
+                : bearing - Math.PI / 2 + correction;
+            this.steerTowardHeading(heading);
+            this.setSail(AICaptain.BATTLE_SAIL);
+        }
+        this.trimSails(windDirection);
+
+        const aimPoint = this.aimBroadside(side, target);
+        this.fireWhenBroadsideBears(side, target, aimPoint, AICaptain.FIRING_RANGE_MARGIN);
+    }
+
+    // Run straight away from the threat, only shooting back if it gets close
+    protected flee(threat: Ship, windDirection: number): void {
+        const dx = this.ship.position.x - threat.position.x;
+        const dy = this.ship.position.y - threat.position.y;
+        this.steerTowardHeading(Math.atan2(dy, dx));
+        this.setSail(100);
+        this.trimSails(windDirection);
+
+        // Shoot back with whichever side happens to face them
+        const side: Broadside = this.ship.worldToLocal(threat.position.x, threat.position.y).y < 0 ? 'port' : 'starboard';
+        const aimPoint = this.aimBroadside(side, threat);
+        this.fireWhenBroadsideBears(side, threat, aimPoint, AICaptain.SELF_DEFENCE_RANGE);
+    }
+
+    // Hold a station relative to another ship (offset in its local coordinates), matching its course and speed
+    keepStation(leader: Ship, offset: { x: number, y: number }, windDirection: number): void {
+        const station = leader.localToWorld(offset.x, offset.y);
+        const dx = station.x - this.ship.position.x;
+        const dy = station.y - this.ship.position.y;
+
+        if (Math.hypot(dx, dy) > AICaptain.STATION_CATCH_UP_DISTANCE) {
+            // Out of position: make for the station under full sail
+            this.steerTowardHeading(this.headingTo(station, windDirection) ?? Math.atan2(dy, dx));
+            this.setSail(100);
+        } else {
+            // Split the error into along and across the leader's course
+            const cos = Math.cos(leader.body.angle);
+            const sin = Math.sin(leader.body.angle);
+            const along = dx * cos + dy * sin;   // Positive: the station is ahead of us
+            const across = -dx * sin + dy * cos; // Positive: the station is to the leader's starboard of us
+
+            // Steer the leader's course, edging across toward the station
+            const correction = Math.max(-1, Math.min(1, across / AICaptain.STATION_CATCH_UP_DISTANCE)) * AICaptain.STATION_CORRECTION_ANGLE;
+            this.steerTowardHeading(leader.body.angle + correction);
+
+            // Carry the leader's sail, plus a little more when we've dropped astern of station
+            const sail = AICaptain.averageSailOpenness(leader) + along * AICaptain.STATION_SAIL_GAIN;
+            this.setSail(Math.max(0, Math.min(100, sail)));
+        }
+        this.trimSails(windDirection);
+    }
+
+    // Stop where we are: sails in and rudder amidships
+    heaveTo(windDirection: number): void {
+        this.ship.applyRudder('center');
+        this.setSail(0);
+        this.trimSails(windDirection);
+    }
+
+    // Sail for our destination at an easy pace, or hold the current heading if we have none
+    protected cruise(state: AIBehavior, windDirection: number): void {
+        const heading = this.destination ? this.headingTo(this.destination, windDirection) : null;
+        if (this.destination && heading === null) {
+            // Arrived
+            this.destination = null;
+        }
+        this.steerTowardHeading(heading ?? this.ship.body.angle);
+        this.setSail(AICaptain.CRUISING_SAIL[state]);
+        this.trimSails(windDirection);
+    }
+
+    // Whether we mean to board the target rather than just shoot at it
+    isBoarding(target: Ship): boolean {
+        return this.behavior.state === AIBehavior.AGGRESSIVE &&
+            this.boardersAboard > 0 &&
+            target.getHullIntegrity() < this.behavior.config.boardHullThreshold;
+    }
+
+    // Whether we are alongside our target, close and slow enough for a boarding party to cross
+    isReadyToBoard(): boolean {
+        if (!this.target || !this.isBoarding(this.target)) return false;
+
+        const distance = Math.hypot(this.target.position.x - this.ship.position.x, this.target.position.y - this.ship.position.y);
+        const relativeSpeed = Math.hypot(
+            this.target.body.velocity.x - this.ship.body.velocity.x,
+            this.target.body.velocity.y - this.ship.body.velocity.y
+        );
+        return distance < AICaptain.BOARDING_DISTANCE && relativeSpeed < AICaptain.MAX_BOARDING_SPEED;
+    }
+
+    // Send the boarding party over the side. Returns how many crew went.
+    launchBoarders(): number {
+        const count = this.boardersAboard;
+        this.boardersAboard = 0;
+        return count;
+    }
+
+    // Sail somewhere when not busy fighting or fleeing (null to just hold course)
+    sailTo(destination: { x: number, y: number } | null): void {
+        this.destination = destination ? { x: destination.x, y: destination.y } : null;
+    }
+
+    private distanceTo(ship: Ship): number {
+        return Math.hypot(ship.position.x - this.ship.position.x, ship.position.y - this.ship.position.y);
+    }
+
+    // Heading toward a point, following a planned route around the islands when we have a planner.
+    // Returns null once the point has been reached.
+    protected headingTo(point: { x: number, y: number }, windDirection: number): number | null {
+        if (!this.navigation) {
+            return Math.atan2(point.y - this.ship.position.y, point.x - this.ship.position.x);
+        }
+        this.navigation.setGoal(point);
+        return this.navigation.update(this.ship.position, windDirection);
+    }
+
+    // Fight with the side that has loaded guns, only switching once the current side is empty
+    protected chooseBroadside(target: Ship): Broadside {
+        const loadedGuns = (side: Broadside) => this.ship.getBroadsideCannons(side)
+            .filter(cannon => cannon.isLoaded && !cannon.isDestroyed()).length;
+
+        if (this.engagedSide === null) {
+            // Start with the side already facing the target
+            this.engagedSide = this.ship.worldToLocal(target.position.x, target.position.y).y < 0 ? 'port' : 'starboard';
+        }
+
+        const otherSide: Broadside = this.engagedSide === 'port' ? 'starboard' : 'port';
+        if (loadedGuns(this.engagedSide) === 0 && loadedGuns(otherSide) > 0) {
+            this.engagedSide = otherSide;
+        }
+        return this.engagedSide;
+    }
+
+    // Train one broadside on where the target will be when the shot arrives.
+    // Returns the lead point for the middle of the ship (used to check which guns bear).
+    protected aimBroadside(side: Broadside, target: Ship): { x: number, y: number } {
+        const shipSpeed = this.ship.getSpeed();
+        const guns = this.ship.getBroadsideCannons(side).filter(cannon => !cannon.isDestroyed());
+        if (guns.length === 0) {
+            return { x: target.position.x, y: target.position.y };
+        }
+
+        // Lead for the ship as a whole first, since estimating it re-lays the gun it is computed with
+        const shipLead = leadTarget(target, this.ship.position, guns[0], shipSpeed);
+
+        guns.forEach(cannon => layGun(this.ship, cannon, target, this.aimError));
+
+        return { x: shipLead.x + this.aimError.x, y: shipLead.y + this.aimError.y };
+    }
+
+    // Fire a broadside once the target is within a fraction of our guns' range and every loaded gun that bears is laid on it
+    protected fireWhenBroadsideBears(
+        side: Broadside,
+        target: Ship,
+        aimPoint: { x: number, y: number },
+        rangeFraction: number
+    ): void {
+        this.fireOrderTimer--;
+        if (this.fireOrderTimer > 0) return;
+
+        const distance = Math.hypot(target.position.x - this.ship.position.x, target.position.y - this.ship.position.y);
+        if (distance >= this.getGunRange() * rangeFraction) return;
+
+        const localAim = this.ship.worldToLocal(aimPoint.x, aimPoint.y);
+        const bearingGuns = this.ship.getBroadsideCannons(side).filter(cannon =>
+            cannon.isLoaded && !cannon.isDestroyed() && cannon.bearsOn(localAim.x, localAim.y)
+        );
+        if (bearingGuns.length === 0 || !bearingGuns.every(cannon => cannon.isOnTarget())) return;
+
+        this.ship.fireBroadside(side, aimPoint);
+        this.fireOrderTimer = AICaptain.FIRE_ORDER_INTERVAL;
+        // The next broadside will be off by a different amount
+        this.rollAimError(distance);
+    }
+
+    // Pick a fresh aiming error for the next broadside, bigger the worse our gunnery and the longer the range
+    private rollAimError(distance: number): void {
+        const spread = (1 - Math.max(0, Math.min(1, this.accuracy))) * AICaptain.AIM_SPREAD * distance;
+        const direction = Math.random() * Math.PI * 2;
+        const offset = Math.random() * spread;
+        this.aimError = { x: Math.cos(direction) * offset, y: Math.sin(direction) * offset };
+    }
+
+    // Put the rudder over toward a world heading (radians), or center it when on course
+    protected steerTowardHeading(heading: number): void {
+        const error = AICaptain.normalizeAngle(heading - this.ship.body.angle);
+
+        if (error > AICaptain.HEADING_TOLERANCE) {
+            this.ship.applyRudder('right');
+        } else if (error < -AICaptain.HEADING_TOLERANCE) {
+            this.ship.applyRudder('left');
+        } else {
+            this.ship.applyRudder('center');
+        }
+    }
+
+    // Work the sails one step at a time toward a target openness (0-100%)
+    protected setSail(openness: number): void {
+        this.sailOrderTimer--;
+        if (this.sailOrderTimer > 0) return;
+
+        const current = this.getSailOpenness();
+        if (current < openness - 5) {
+            this.ship.openSails();
+            this.sailOrderTimer = AICaptain.SAIL_ORDER_INTERVAL;
+        } else if (current > openness + 5) {
+            this.ship.closeSails();
+            this.sailOrderTimer = AICaptain.SAIL_ORDER_INTERVAL;
+        }
+    }
+
+    // Rotate the sails so their face is square to the wind
+    protected trimSails(windDirection: number): void {
+        const sail = this.ship.sails.values().next().value;
+        if (!sail) return;
+
+        // Sail efficiency peaks when the sail normal (ship angle + sail angle + 90°) points downwind
+        const idealRadians = AICaptain.normalizeAngle(windDirection - this.ship.body.angle - Math.PI / 2);
+        const ideal = Math.max(-75, Math.min(75, idealRadians * 180 / Math.PI));
+
+        if (ideal - sail.angle > AICaptain.TRIM_TOLERANCE) {
+            this.ship.rotateSails('right');
+        } else if (sail.angle - ideal > AICaptain.TRIM_TOLERANCE) {
+            this.ship.rotateSails('left');
+        }
+    }
+
+    // Average openness of the ship's sails
+    protected getSailOpenness(): number {
+        return AICaptain.averageSailOpenness(this.ship);
+    }
+
+    protected static averageSailOpenness(ship: Ship): number {
+        if (ship.sails.size === 0) return 0;
+        let total = 0;
+        ship.sails.forEach(sail => total += sail.openness);
+        return total / ship.sails.size;
+    }
+
+    // Longest range any of our guns is currently laid for
+    protected getGunRange(): number {
+        const shipSpeed = this.ship.getSpeed();
+        let range = 0;
+        this.ship.cannons.forEach(cannon => range = Math.max(range, cannon.getRange(shipSpeed)));
+        return range;
+    }
+
+    // Furthest any of our guns could reach at full elevation
+    protected getMaxGunRange(): number {
+        const shipSpeed = this.ship.getSpeed();
+        let range = 0;
+        this.ship.cannons.forEach(cannon => range = Math.max(range, cannon.getMaxRange(shipSpeed)));
+        return range;
+    }
+
+    // Normalize an angle to be between -π and π
+    protected static normalizeAngle(angle: number): number {
+        while (angle > Math.PI) angle -= Math.PI * 2;
+        while (angle < -Math.PI) angle += Math.PI * 2;
+        return angle;
+    }
+}
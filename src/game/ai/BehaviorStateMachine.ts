@@ -0,0 +1,200 @@
+// BehaviorStateMachine.ts - Decides which AIBehavior an AI ship is in
+import { AIBehavior } from '../../types';
+
+// Thresholds that drive the state transitions, tuned per enemy type
+export interface AIBehaviorConfig {
+    initialBehavior: AIBehavior;
+    fleeHullThreshold: number;    // Seaworthiness (0-1) below which an aggressive ship flees
+    recoverHullThreshold: number; // Seaworthiness (0-1) a fleeing ship needs before fighting again
+    engageRange: number;          // Distance at which an aggressive ship goes after a target
+    disengageRange: number;       // Distance a fleeing ship must open before it calms down
+    hostileWhenAttacked: boolean; // Neutral ships turn aggressive when shot
+    fleeWhenAttacked: boolean;    // Passive ships run when shot
+    engageHostiles: boolean;      // Neutral ships go after their faction's enemies on sight
+    boardingPartySize: number;    // Crew sent across when boarding (0 = never boards)
+    boardHullThreshold: number;   // Target hull integrity (0-1) below which we close in to board
+}
+
+export type EnemyType = 'raider' | 'patrol' | 'trader' | 'ghost';
+// Every kind of AI ship, including the player's allies and the islanders
+export type AIShipType = EnemyType | 'escort' | 'islander';
+
+export const AI_BEHAVIOR_PROFILES: Record<AIShipType, AIBehaviorConfig> = {
+    // Hunts anything in sight, but breaks off when badly holed
+    raider: {
+        initialBehavior: AIBehavior.AGGRESSIVE,
+        fleeHullThreshold: 0.3,
+        recoverHullThreshold: 0.6,
+        engageRange: 2500,
+        disengageRange: 2000,
+        hostileWhenAttacked: true,
+        fleeWhenAttacked: false,
+        engageHostiles: true,
+        boardingPartySize: 4,
+        boardHullThreshold: 0.7
+    },
+    // Hunts pirates (and outlaws) but otherwise minds its own business until fired upon, then fights almost to the end
+    patrol: {
+        initialBehavior: AIBehavior.NEUTRAL,
+        fleeHullThreshold: 0.15,
+        recoverHullThreshold: 0.5,
+        engageRange: 2000,
+        disengageRange: 1500,
+        hostileWhenAttacked: true,
+        fleeWhenAttacked: false,
+        engageHostiles: true,
+        boardingPartySize: 3,
+        boardHullThreshold: 0.4
+    },
+    // Hunts everything and never breaks off, however badly holed
+    ghost: {
+        initialBehavior: AIBehavior.AGGRESSIVE,
+        fleeHullThreshold: 0,
+        recoverHullThreshold: 0,
+        engageRange: 3000,
+        disengageRange: 2000,
+        hostileWhenAttacked: true,
+        fleeWhenAttacked: false,
+        engageHostiles: true,
+        boardingPartySize: 6,
+        boardHullThreshold: 0.8
+    },
+    // Never fights; runs from anyone who shoots at it
+    trader: {
+        initialBehavior: AIBehavior.PASSIVE,
+        fleeHullThreshold: 1,
+        recoverHullThreshold: 1,
+        engageRange: 0,
+        disengageRange: 1800,
+        hostileWhenAttacked: false,
+        fleeWhenAttacked: true,
+        engageHostiles: false,
+        boardingPartySize: 0,
+        boardHullThreshold: 0
+    },
+    // Sails with the player, fights on command or when fired upon
+    escort: {
+        initialBehavior: AIBehavior.NEUTRAL,
+        fleeHullThreshold: 0.2,
+        recoverHullThreshold: 0.5,
+        engageRange: 2500,
+        disengageRange: 1500,
+        hostileWhenAttacked: true,
+        fleeWhenAttacked: false,
+        engageHostiles: false,
+        boardingPartySize: 0,
+        boardHullThreshold: 0
+    },
+    // Guards its home waters: goes after its faction's enemies that come near, and anyone who fires on it
+    islander: {
+        initialBehavior: AIBehavior.NEUTRAL,
+        fleeHullThreshold: 0.25,
+        recoverHullThreshold: 0.5,
+        engageRange: 1500,
+        disengageRange: 1500,
+        hostileWhenAttacked: true,
+        fleeWhenAttacked: false,
+        engageHostiles: true,
+        boardingPartySize: 0,
+        boardHullThreshold: 0
+    }
+};
+
+// What the state machine needs to know about the world this frame
+export interface BehaviorContext {
+    seaworthiness: number;          // 0-1: the worse of hull integrity and how dry the hold is
+    distanceToTarget: number | null; // Distance to the current target/threat, null if there is none
+}
+
+export type BehaviorChangeListener = (state: AIBehavior, previousState: AIBehavior) => void;
+
+export class BehaviorStateMachine {
+    state: AIBehavior;
+    config: AIBehaviorConfig;
+    private listeners: BehaviorChangeListener[] = [];
+
+    constructor(config: AIBehaviorConfig) {
+        this.config = config;
+        this.state = config.initialBehavior;
+    }
+
+    // Someone shot at us
+    onAttacked(): void {
+        switch (this.state) {
+            case AIBehavior.NEUTRAL:
+                if (this.config.hostileWhenAttacked) {
+                    this.transition(AIBehavior.AGGRESSIVE);
+                }
+                break;
+            case AIBehavior.PASSIVE:
+                if (this.config.fleeWhenAttacked) {
+                    this.transition(AIBehavior.FLEEING);
+                } else if (this.config.hostileWhenAttacked) {
+                    this.transition(AIBehavior.AGGRESSIVE);
+                }
+                break;
+        }
+    }
+
+    // Ordered to fight (ships that are running away ignore the order)
+    engage(): void {
+        if (this.state !== AIBehavior.FLEEING) {
+            this.transition(AIBehavior.AGGRESSIVE);
+        }
+    }
+
+    // Ordered to break off and go back to normal
+    standDown(): void {
+        if (this.state === AIBehavior.AGGRESSIVE) {
+            this.transition(this.config.initialBehavior);
+        }
+    }
+
+    // Pick up where a saved ship left off (listeners aren't told, as nothing has changed)
+    resume(state: AIBehavior): void {
+        this.state = state;
+    }
+
+    // Re-evaluate the state from the ship's condition and the target's distance
+    update(context: BehaviorContext): AIBehavior {
+        switch (this.state) {
+            case AIBehavior.AGGRESSIVE:
+                // Badly holed or flooding ships break off the fight
+                if (context.seaworthiness < this.config.fleeHullThreshold) {
+                    this.transition(AIBehavior.FLEEING);
+                }
+                break;
+            case AIBehavior.FLEEING:
+                if (context.distanceToTarget === null || context.distanceToTarget > this.config.disengageRange) {
+                    // Got away: go back to minding our own business
+                    this.transition(this.config.initialBehavior === AIBehavior.PASSIVE ? AIBehavior.PASSIVE : AIBehavior.NEUTRAL);
+                } else if (context.seaworthiness >= this.config.recoverHullThreshold && this.config.engageRange > 0) {
+                    // Patched up enough to turn and fight
+                    this.transition(AIBehavior.AGGRESSIVE);
+                }
+                break;
+            case AIBehavior.NEUTRAL:
+            case AIBehavior.PASSIVE:
+                // Only changed by being attacked
+                break;
+        }
+
+        return this.state;
+    }
+
+    // Get notified whenever the behaviour changes (returns an unsubscribe function)
+    onChange(listener: BehaviorChangeListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private transition(state: AIBehavior): void {
+        if (state === this.state) return;
+
+        const previousState = this.state;
+        this.state = state;
+        this.listeners.forEach(listener => listener(state, previousState));
+    }
+}
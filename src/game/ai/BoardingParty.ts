@@ -0,0 +1,186 @@
+// BoardingParty.ts - Crew sent across from one ship to fight for another's deck
+import Ship from '../Ship';
+import CrewMember, { CrewOpponent } from '../CrewMember';
+import { BaseModule } from '../modules';
+
+export class BoardingParty {
+    from: Ship;   // Ship the boarders came from
+    target: Ship; // Ship they are trying to take
+    members: CrewMember[] = [];
+
+    // Boarders go after anyone within this distance, before heading for the ship's controls
+    private static readonly ENGAGE_RANGE = 250;
+    // A boarder holding a station only leaves it to fight someone this close
+    private static readonly DEFEND_RANGE = 80;
+    // How close to a module a boarder must get to take it over
+    private static readonly SEIZE_REACH = 45;
+    // Boarders steer from just aft of the wheel, clear of its housing
+    private static readonly HELM_OFFSET = 25;
+    // Frames between sail orders from a boarder at a captured wheel
+    private static readonly SAIL_ORDER_INTERVAL = 15;
+    // How far off the boarders' own ship's heading before they put the rudder over
+    private static readonly HEADING_TOLERANCE = Math.PI / 36;
+
+    private objectives: Map<CrewMember, string> = new Map(); // Module each boarder is heading for
+    private sailOrderTimer: number = 0;
+
+    constructor(from: Ship, target: Ship, count: number) {
+        this.from = from;
+        this.target = target;
+
+        // Come over the rail on the side facing the boarders' ship
+        const side = target.worldToLocal(from.position.x, from.position.y).y < 0 ? -1 : 1;
+        for (let i = 0; i < count; i++) {
+            const localX = count > 1 ? -150 + 300 * i / (count - 1) : 0;
+            const landing = target.localToWorld(localX, side * 60);
+            const safe = target.findSafeDismountPosition(landing.x, landing.y);
+            this.members.push(new CrewMember(from, target, safe.x, safe.y));
+        }
+    }
+
+    // Fight anyone in reach, otherwise take over the ship's wheel and then its guns
+    update(opponents: CrewOpponent[]): void {
+        this.removeFallen();
+
+        for (const member of this.members) {
+            member.update();
+
+            const nearest = this.findNearestOpponent(member, opponents);
+            const holding = member.seizedModuleId !== null;
+            const engageRange = holding ? BoardingParty.DEFEND_RANGE : BoardingParty.ENGAGE_RANGE;
+
+            if (nearest && nearest.distance < engageRange) {
+                // Step off any station to fight
+                this.release(member);
+                if (!member.strike(nearest.opponent)) {
+                    member.walkToward(nearest.opponent.position.x, nearest.opponent.position.y);
+                }
+            } else if (!holding) {
+                this.advanceOnObjective(member);
+            }
+        }
+
+        this.sailCapturedShip();
+    }
+
+    // Every boarder has been cut down
+    isDefeated(): boolean {
+        return this.members.every(member => !member.isAlive());
+    }
+
+    // Give back every station the boarders hold (when they are beaten or the fight is over)
+    disband(): void {
+        this.members.forEach(member => this.release(member));
+        this.members = [];
+        this.objectives.clear();
+    }
+
+    draw(ctx: CanvasRenderingContext2D): void {
+        this.members.forEach(member => member.draw(ctx));
+    }
+
+    private removeFallen(): void {
+        this.members.forEach(member => {
+            if (!member.isAlive()) this.release(member);
+        });
+        this.members = this.members.filter(member => member.isAlive());
+    }
+
+    private findNearestOpponent(member: CrewMember, opponents: CrewOpponent[]): { opponent: CrewOpponent, distance: number } | null {
+        const position = member.position;
+        let nearest: { opponent: CrewOpponent, distance: number } | null = null;
+
+        for (const opponent of opponents) {
+            if (!opponent.isAlive()) continue;
+            const distance = Math.hypot(opponent.position.x - position.x, opponent.position.y - position.y);
+            if (!nearest || distance < nearest.distance) {
+                nearest = { opponent, distance };
+            }
+        }
+        return nearest;
+    }
+
+    // Walk to this boarder's module and take it over once in reach
+    private advanceOnObjective(member: CrewMember): void {
+        const moduleId = this.objectives.get(member) ?? this.chooseObjective(member);
+        const module = moduleId ? this.target.modules.get(moduleId) : undefined;
+        if (!moduleId || !(module instanceof BaseModule) || module.isDestroyed() || this.target.isModuleSeized(moduleId)) {
+            this.objectives.delete(member);
+            return;
+        }
+        this.objectives.set(member, moduleId);
+
+        const station = this.getStation(moduleId, module);
+        const worldStation = this.target.localToWorld(station.x, station.y);
+        member.walkToward(worldStation.x, worldStation.y);
+
+        const local = member.localPosition;
+        if (Math.hypot(local.x - module.position.x, local.y - module.position.y) < BoardingParty.SEIZE_REACH ||
+            Math.hypot(local.x - station.x, local.y - station.y) < BoardingParty.SEIZE_REACH) {
+            this.target.seizeModule(moduleId);
+            member.seizedModuleId = moduleId;
+            member.standAt(station.x, station.y);
+            this.objectives.delete(member);
+        }
+    }
+
+    // The wheel first, then the nearest gun nobody else is going for
+    private chooseObjective(member: CrewMember): string | null {
+        const claimed = new Set(this.objectives.values());
+        const available = (id: string, module: BaseModule) =>
+            !claimed.has(id) && !this.target.isModuleSeized(id) && !module.isDestroyed();
+
+        for (const [id, wheel] of this.target.wheels) {
+            if (available(id, wheel)) return id;
+        }
+
+        let nearestId: string | null = null;
+        let nearestDistance = Infinity;
+        const local = member.localPosition;
+        this.target.cannons.forEach((cannon, id) => {
+            if (!available(id, cannon)) return;
+            const distance = Math.hypot(cannon.position.x - local.x, cannon.position.y - local.y);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearestId = id;
+            }
+        });
+        return nearestId;
+    }
+
+    // Ship-local spot a crew member stands at to work a module: a gun's crew position, or just aft of a wheel
+    private getStation(moduleId: string, module: BaseModule): { x: number, y: number } {
+        const cannon = this.target.cannons.get(moduleId);
+        return cannon ? cannon.getCrewPosition() : { x: module.position.x - BoardingParty.HELM_OFFSET, y: module.position.y };
+    }
+
+    private release(member: CrewMember): void {
+        if (member.seizedModuleId !== null) {
+            this.target.releaseModule(member.seizedModuleId);
+            member.seizedModuleId = null;
+        }
+    }
+
+    // Boarders at the wheel take in sail and lay the ship alongside their own
+    private sailCapturedShip(): void {
+        if (!this.target.isWheelSeized() || this.target.isSunk()) return;
+
+        let error = this.from.body.angle - this.target.body.angle;
+        while (error > Math.PI) error -= Math.PI * 2;
+        while (error < -Math.PI) error += Math.PI * 2;
+
+        if (error > BoardingParty.HEADING_TOLERANCE) {
+            this.target.applyRudder('right');
+        } else if (error < -BoardingParty.HEADING_TOLERANCE) {
+            this.target.applyRudder('left');
+        } else {
+            this.target.applyRudder('center');
+        }
+
+        this.sailOrderTimer--;
+        if (this.sailOrderTimer <= 0) {
+            this.target.closeSails();
+            this.sailOrderTimer = BoardingParty.SAIL_ORDER_INTERVAL;
+        }
+    }
+}
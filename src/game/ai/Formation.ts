@@ -0,0 +1,37 @@
+// Formation.ts - Stations escorts keep around the ship they are escorting
+
+export type FormationType = 'line-ahead' | 'line-abreast' | 'wedge';
+
+// Order formations are cycled through
+export const FORMATION_ORDER: FormationType[] = ['line-ahead', 'line-abreast', 'wedge'];
+
+export const FORMATION_NAMES: Record<FormationType, string> = {
+    'line-ahead': 'Line Ahead',
+    'line-abreast': 'Line Abreast',
+    'wedge': 'Wedge'
+};
+
+// Distance between ships one behind the other (a brigantine is 450 long)
+const SPACING_ASTERN = 600;
+// Distance between ships side by side
+const SPACING_ABEAM = 350;
+
+// Offset of an escort's station in the leader's local coordinates (+x ahead, +y to starboard).
+// Slot 0 is the station closest to the leader.
+export function getFormationOffset(formation: FormationType, slot: number): { x: number, y: number } {
+    // Escorts alternate port and starboard, moving one rank further out every pair
+    const side = slot % 2 === 0 ? -1 : 1;
+    const rank = Math.floor(slot / 2) + 1;
+
+    switch (formation) {
+        case 'line-ahead':
+            // Single file astern of the leader
+            return { x: -(slot + 1) * SPACING_ASTERN, y: 0 };
+        case 'line-abreast':
+            // Side by side with the leader
+            return { x: 0, y: side * rank * SPACING_ABEAM };
+        case 'wedge':
+            // Fanning out astern on either quarter
+            return { x: -rank * SPACING_ASTERN, y: side * rank * SPACING_ABEAM };
+    }
+}
@@ -0,0 +1,49 @@
+// Gunnery.ts - Laying guns on a moving target, shared by AI captains and hired gunners
+import Ship from '../Ship';
+import { CannonModule } from '../modules';
+
+// Passes used to refine the lead estimate (flight time depends on the aim point)
+const LEAD_ITERATIONS = 3;
+
+// Where the target will be when a shot from this gun reaches it, assuming it holds its course and speed.
+// shipSpeed is the firing ship's speed, which fire() adds to the shot.
+export function leadTarget(
+    target: Ship,
+    muzzle: { x: number, y: number },
+    cannon: CannonModule,
+    shipSpeed: number
+): { x: number, y: number } {
+    const velocity = target.body.velocity;
+    let aimPoint = { x: target.position.x, y: target.position.y };
+
+    // The flight time depends on the distance, which depends on the lead, so refine a few times
+    for (let i = 0; i < LEAD_ITERATIONS; i++) {
+        const distance = Math.hypot(aimPoint.x - muzzle.x, aimPoint.y - muzzle.y);
+        cannon.setElevationForRange(distance, shipSpeed);
+        const flightTime = distance / cannon.getHorizontalShotSpeed(shipSpeed);
+        aimPoint = {
+            x: target.position.x + velocity.x * flightTime,
+            y: target.position.y + velocity.y * flightTime
+        };
+    }
+
+    return aimPoint;
+}
+
+// Train and elevate one of a ship's guns on where the target will be, off by `error` (world units)
+// for gun crews who can't lay a gun true. Returns the point the gun was laid on.
+export function layGun(
+    ship: Ship,
+    cannon: CannonModule,
+    target: Ship,
+    error: { x: number, y: number } = { x: 0, y: 0 }
+): { x: number, y: number } {
+    const shipSpeed = ship.getSpeed();
+    const muzzle = ship.localToWorld(cannon.position.x, cannon.position.y);
+    const lead = leadTarget(target, muzzle, cannon, shipSpeed);
+    const leadPoint = { x: lead.x + error.x, y: lead.y + error.y };
+    const localLead = ship.worldToLocal(leadPoint.x, leadPoint.y);
+    cannon.aimAt(localLead.x, localLead.y);
+    cannon.setElevationForRange(Math.hypot(leadPoint.x - muzzle.x, leadPoint.y - muzzle.y), shipSpeed);
+    return leadPoint;
+}
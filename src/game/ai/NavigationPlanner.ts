@@ -0,0 +1,341 @@
+// NavigationPlanner.ts - Plans wind-aware routes for AI ships around the islands
+import WorldManager, { Island } from '../World';
+
+// A point on a planned route. Tack waypoints are the turning points of an upwind zig-zag.
+export interface Waypoint {
+    x: number;
+    y: number;
+    tack: boolean;
+}
+
+type Point = { x: number, y: number };
+
+export class NavigationPlanner {
+    private world: WorldManager;
+    clearance: number; // How far to keep the ship's centre from any shore
+
+    private goal: Point | null = null;
+    private route: Waypoint[] = [];
+    private plannedWind: number | null = null; // Wind direction the current route was planned for
+
+    private static readonly DEFAULT_CLEARANCE = 300;
+    // Courses closer than this to straight upwind (radians) can't be sailed and are tacked instead
+    static readonly NO_GO_ANGLE = 50 * Math.PI / 180;
+    // Longest single board of a tack before going about
+    private static readonly MAX_TACK_LENGTH = 800;
+    // Most boards we'll split an upwind leg into while looking for one that misses the islands
+    private static readonly MAX_TACKS = 8;
+    // Distance at which a waypoint counts as reached
+    private static readonly ARRIVAL_RADIUS = 150;
+    // Re-plan once the wind has swung this far (radians) from the one the route was planned for
+    private static readonly REPLAN_WIND_CHANGE = Math.PI / 12; // 15 degrees
+    // Re-plan when the goal moves further than this (e.g. when chasing a ship)
+    private static readonly REPLAN_GOAL_SHIFT = 300;
+    // Route corners sit slightly outside the clearance so legs between them don't graze it
+    private static readonly CORNER_MARGIN = 1.05;
+
+    constructor(world: WorldManager, clearance: number = NavigationPlanner.DEFAULT_CLEARANCE) {
+        this.world = world;
+        this.clearance = clearance;
+    }
+
+    // Set where we want to go (null to stop navigating)
+    setGoal(goal: Point | null): void {
+        if (goal === null) {
+            this.goal = null;
+            this.route = [];
+            return;
+        }
+
+        // Small moves of the goal don't warrant a new route
+        if (this.goal && Math.hypot(goal.x - this.goal.x, goal.y - this.goal.y) < NavigationPlanner.REPLAN_GOAL_SHIFT) {
+            return;
+        }
+        this.goal = { x: goal.x, y: goal.y };
+        this.plannedWind = null; // Forces a re-plan on the next update
+    }
+
+    getGoal(): Point | null {
+        return this.goal;
+    }
+
+    // Waypoints still to be sailed, in order
+    getRoute(): Waypoint[] {
+        return this.route;
+    }
+
+    hasArrived(): boolean {
+        return this.goal !== null && this.route.length === 0 && this.plannedWind !== null;
+    }
+
+    // Advance along the route and return the heading to steer (radians), or null if there is nowhere to go
+    update(position: Point, windDirection: number): number | null {
+        if (!this.goal) return null;
+
+        // Plan the first time, and again whenever the wind has shifted enough to change the best course
+        if (this.plannedWind === null ||
+            Math.abs(NavigationPlanner.normalizeAngle(windDirection - this.plannedWind)) > NavigationPlanner.REPLAN_WIND_CHANGE) {
+            this.route = this.plan(position, this.goal, windDirection);
+            this.plannedWind = windDirection;
+        }
+
+        // Drop waypoints we have reached
+        while (this.route.length > 0 &&
+            Math.hypot(this.route[0].x - position.x, this.route[0].y - position.y) < NavigationPlanner.ARRIVAL_RADIUS) {
+            this.route.shift();
+        }
+        if (this.route.length === 0) return null;
+
+        return Math.atan2(this.route[0].y - position.y, this.route[0].x - position.x);
+    }
+
+    // Plan a route from one point to another that stays clear of the islands and tacks up any upwind legs
+    plan(from: Point, to: Point, windDirection: number): Waypoint[] {
+        const obstacles = this.buildObstacles(this.clearance)
+            // Ignore shores we are already inside the clearance of (or the goal is), otherwise nothing would be reachable
+            .filter(polygon => !NavigationPlanner.containsPoint(polygon, from) && !NavigationPlanner.containsPoint(polygon, to));
+        const path = this.findPath(from, to, obstacles, windDirection);
+
+        // Turn each leg into waypoints, zig-zagging the ones that point into the wind
+        const route: Waypoint[] = [];
+        for (let i = 1; i < path.length; i++) {
+            route.push(...this.expandLeg(path[i - 1], path[i], obstacles, windDirection));
+        }
+        return route;
+    }
+
+    // Relative speed (0-1) a ship makes on a heading, using the same hull alignment model as Ship.applyWindForce
+    static sailingSpeed(heading: number, windDirection: number): number {
+        // Angle between the heading and where the wind blows to (0 = dead downwind)
+        const offWind = Math.abs(NavigationPlanner.normalizeAngle(heading - windDirection)) * 180 / Math.PI;
+        if (offWind <= 90) {
+            return 1.0 - (0.55 * offWind / 90);
+        }
+        return 0.45 * Math.max(0, 1 - (offWind - 90) / 90);
+    }
+
+    // Whether a course can be sailed directly, rather than tacked
+    static canSail(heading: number, windDirection: number): boolean {
+        const upwind = windDirection + Math.PI;
+        return Math.abs(NavigationPlanner.normalizeAngle(heading - upwind)) >= NavigationPlanner.NO_GO_ANGLE;
+    }
+
+    // Islands grown by a margin, as polygons
+    private buildObstacles(margin: number): Point[][] {
+        return this.world.getIslands().map(island => NavigationPlanner.inflate(NavigationPlanner.getOutline(island), margin));
+    }
+
+    // Shortest-time path over the corners of the obstacles (a visibility graph searched with Dijkstra)
+    private findPath(from: Point, to: Point, obstacles: Point[][], windDirection: number): Point[] {
+        if (!this.isBlocked(from, to, obstacles)) {
+            return [from, to];
+        }
+
+        // Route corners: just outside each obstacle, and not inside any other
+        const corners = obstacles
+            .flatMap(polygon => NavigationPlanner.inflate(polygon, this.clearance * (NavigationPlanner.CORNER_MARGIN - 1)))
+            .filter(corner => !obstacles.some(polygon => NavigationPlanner.containsPoint(polygon, corner)));
+        const nodes: Point[] = [from, ...corners, to];
+        const goalIndex = nodes.length - 1;
+
+        const cost = nodes.map(() => Infinity);
+        const previous: number[] = nodes.map(() => -1);
+        const visited = nodes.map(() => false);
+        cost[0] = 0;
+
+        for (;;) {
+            // Cheapest unvisited node
+            let current = -1;
+            for (let i = 0; i < nodes.length; i++) {
+                if (!visited[i] && cost[i] < Infinity && (current === -1 || cost[i] < cost[current])) {
+                    current = i;
+                }
+            }
+            if (current === -1 || current === goalIndex) break;
+            visited[current] = true;
+
+            for (let next = 0; next < nodes.length; next++) {
+                if (visited[next] || next === current) continue;
+                if (this.isBlocked(nodes[current], nodes[next], obstacles)) continue;
+
+                const total = cost[current] + this.legCost(nodes[current], nodes[next], windDirection);
+                if (total < cost[next]) {
+                    cost[next] = total;
+                    previous[next] = current;
+                }
+            }
+        }
+
+        // No way round: head straight for the goal and hope for the best
+        if (cost[goalIndex] === Infinity) {
+            return [from, to];
+        }
+
+        const path: Point[] = [];
+        for (let i = goalIndex; i !== -1; i = previous[i]) {
+            path.unshift(nodes[i]);
+        }
+        return path;
+    }
+
+    // Time to sail a leg, allowing for the extra distance of tacking when it points into the wind
+    private legCost(from: Point, to: Point, windDirection: number): number {
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const heading = Math.atan2(to.y - from.y, to.x - from.x);
+
+        if (NavigationPlanner.canSail(heading, windDirection)) {
+            return length / Math.max(0.05, NavigationPlanner.sailingSpeed(heading, windDirection));
+        }
+
+        // Beating upwind: both boards sit at the edge of the no-go zone
+        const upwind = windDirection + Math.PI;
+        const offUpwind = Math.abs(NavigationPlanner.normalizeAngle(heading - upwind));
+        const sailedDistance = length * Math.cos(offUpwind) / Math.cos(NavigationPlanner.NO_GO_ANGLE);
+        const closeHauled = NavigationPlanner.sailingSpeed(upwind + NavigationPlanner.NO_GO_ANGLE, windDirection);
+        return sailedDistance / closeHauled;
+    }
+
+    // Waypoints for one leg: straight there if it can be sailed, otherwise a zig-zag of tacks that misses the islands
+    private expandLeg(from: Point, to: Point, obstacles: Point[][], windDirection: number): Waypoint[] {
+        const heading = Math.atan2(to.y - from.y, to.x - from.x);
+        if (NavigationPlanner.canSail(heading, windDirection)) {
+            return [{ x: to.x, y: to.y, tack: false }];
+        }
+
+        // Split the leg into a distance along each board (at the edge of the no-go zone either side of upwind)
+        const upwind = windDirection + Math.PI;
+        const boardA = { x: Math.cos(upwind + NavigationPlanner.NO_GO_ANGLE), y: Math.sin(upwind + NavigationPlanner.NO_GO_ANGLE) };
+        const boardB = { x: Math.cos(upwind - NavigationPlanner.NO_GO_ANGLE), y: Math.sin(upwind - NavigationPlanner.NO_GO_ANGLE) };
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const determinant = boardA.x * boardB.y - boardA.y * boardB.x;
+        const distanceA = (dx * boardB.y - dy * boardB.x) / determinant;
+        const distanceB = (boardA.x * dy - boardA.y * dx) / determinant;
+
+        // Start on the longer board, and use shorter boards until the zig-zag misses every island
+        const [first, firstDistance, second, secondDistance] = distanceA >= distanceB
+            ? [boardA, distanceA, boardB, distanceB]
+            : [boardB, distanceB, boardA, distanceA];
+        let tacks = Math.max(1, Math.ceil(Math.max(distanceA, distanceB) / NavigationPlanner.MAX_TACK_LENGTH));
+
+        for (; tacks <= NavigationPlanner.MAX_TACKS; tacks++) {
+            const waypoints: Waypoint[] = [];
+            let position = from;
+            let clear = true;
+
+            for (let i = 0; i < tacks && clear; i++) {
+                const turn = { x: position.x + first.x * firstDistance / tacks, y: position.y + first.y * firstDistance / tacks };
+                const end = { x: turn.x + second.x * secondDistance / tacks, y: turn.y + second.y * secondDistance / tacks };
+                clear = !this.isBlocked(position, turn, obstacles) && !this.isBlocked(turn, end, obstacles);
+                waypoints.push({ x: turn.x, y: turn.y, tack: true });
+                waypoints.push({ x: end.x, y: end.y, tack: i < tacks - 1 });
+                position = end;
+            }
+
+            if (clear) {
+                // Finish exactly on the leg's end point
+                waypoints[waypoints.length - 1] = { x: to.x, y: to.y, tack: false };
+                return waypoints;
+            }
+        }
+
+        // Couldn't find a clear zig-zag: sail the leg as close to the wind as we can
+        return [{ x: to.x, y: to.y, tack: false }];
+    }
+
+    // Whether the straight line between two points passes through any obstacle
+    private isBlocked(from: Point, to: Point, obstacles: Point[][]): boolean {
+        const midpoint = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+        return obstacles.some(polygon =>
+            NavigationPlanner.containsPoint(polygon, midpoint) ||
+            polygon.some((vertex, i) => NavigationPlanner.segmentsCross(from, to, vertex, polygon[(i + 1) % polygon.length]))
+        );
+    }
+
+    // Outline of an island's physics body (every part of a compound body)
+    private static getOutline(island: Island): Point[] {
+        const parts = island.body.parts.length > 1 ? island.body.parts.slice(1) : [island.body];
+        const points = parts.flatMap(part => part.vertices.map(vertex => ({ x: vertex.x, y: vertex.y })));
+        return NavigationPlanner.convexHull(points);
+    }
+
+    // Smallest convex polygon around a set of points (monotone chain)
+    private static convexHull(points: Point[]): Point[] {
+        const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+        if (sorted.length < 3) return sorted;
+
+        const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+        const lower: Point[] = [];
+        for (const point of sorted) {
+            while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+            lower.push(point);
+        }
+        const upper: Point[] = [];
+        for (let i = sorted.length - 1; i >= 0; i--) {
+            while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) upper.pop();
+            upper.push(sorted[i]);
+        }
+
+        lower.pop();
+        upper.pop();
+        return lower.concat(upper);
+    }
+
+    // Push every edge of a convex polygon outward by a margin, keeping sharp corners
+    private static inflate(polygon: Point[], margin: number): Point[] {
+        // Outward normals depend on the winding order
+        let area = 0;
+        polygon.forEach((a, i) => {
+            const b = polygon[(i + 1) % polygon.length];
+            area += a.x * b.y - b.x * a.y;
+        });
+        const winding = area > 0 ? 1 : -1;
+
+        const edgeNormal = (a: Point, b: Point) => {
+            const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+            return { x: winding * (b.y - a.y) / length, y: -winding * (b.x - a.x) / length };
+        };
+
+        return polygon.map((vertex, i) => {
+            const prev = polygon[(i - 1 + polygon.length) % polygon.length];
+            const next = polygon[(i + 1) % polygon.length];
+            const n1 = edgeNormal(prev, vertex);
+            const n2 = edgeNormal(vertex, next);
+            // Miter: the point that is `margin` away from both neighbouring edges
+            const scale = margin / Math.max(0.1, 1 + n1.x * n2.x + n1.y * n2.y);
+            return { x: vertex.x + (n1.x + n2.x) * scale, y: vertex.y + (n1.y + n2.y) * scale };
+        });
+    }
+
+    // Point-in-polygon test (ray casting)
+    private static containsPoint(polygon: Point[], point: Point): boolean {
+        let inside = false;
+        for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+            const a = polygon[i];
+            const b = polygon[j];
+            if ((a.y > point.y) !== (b.y > point.y) &&
+                point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+                inside = !inside;
+            }
+        }
+        return inside;
+    }
+
+    // Whether two segments properly cross (touching at an end doesn't count)
+    private static segmentsCross(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+        const d = (p2.x - p1.x) * (q2.y - q1.y) - (p2.y - p1.y) * (q2.x - q1.x);
+        if (d === 0) return false;
+
+        const t = ((q1.x - p1.x) * (q2.y - q1.y) - (q1.y - p1.y) * (q2.x - q1.x)) / d;
+        const u = ((q1.x - p1.x) * (p2.y - p1.y) - (q1.y - p1.y) * (p2.x - p1.x)) / d;
+        const epsilon = 1e-6;
+        return t > epsilon && t < 1 - epsilon && u > epsilon && u < 1 - epsilon;
+    }
+
+    // Normalize an angle to be between -π and π
+    private static normalizeAngle(angle: number): number {
+        while (angle > Math.PI) angle -= Math.PI * 2;
+        while (angle < -Math.PI) angle += Math.PI * 2;
+        return angle;
+    }
+}
@@ -0,0 +1,330 @@
+// ShipCrew.ts - Hired hands aboard a ship and the stations they work
+import Ship from '../Ship';
+import CrewMember, { CrewOpponent } from '../CrewMember';
+import { SailModule } from '../modules';
+import { CrewStation, Inventory } from '../../types';
+import { layGun } from './Gunnery';
+
+// Order stations are cycled through when giving a crew member a new job
+export const CREW_STATION_ORDER: CrewStation[] = [
+    CrewStation.IDLE,
+    CrewStation.HELM,
+    CrewStation.GUNNER,
+    CrewStation.SAILS,
+    CrewStation.CARPENTER,
+    CrewStation.BAILER
+];
+
+export const CREW_STATION_NAMES: Record<CrewStation, string> = {
+    [CrewStation.IDLE]: 'Idle',
+    [CrewStation.HELM]: 'Helmsman',
+    [CrewStation.GUNNER]: 'Gunner',
+    [CrewStation.SAILS]: 'Sail Handler',
+    [CrewStation.CARPENTER]: 'Carpenter',
+    [CrewStation.BAILER]: 'Bailer'
+};
+
+// What the crew need to know from the rest of the game this frame
+export interface CrewContext {
+    windDirection: number;
+    target: Ship | null;             // Ship the gunners fire at
+    opponents: CrewOpponent[];       // Boarders on deck
+    playerAtWheel: boolean;          // The player has the helm (and the sails)
+    playerCannonId: string | null;   // Cannon the player is manning
+    stores: Inventory;               // Ship's stores the carpenter draws wood from
+}
+
+export class ShipCrew {
+    ship: Ship;
+    members: CrewMember[] = [];
+    heading: number; // Course the helmsman holds
+
+    // Hands drop their work to fight boarders this close
+    private static readonly DEFEND_RANGE = 150;
+    // How close a hand must be to their station to work it
+    private static readonly STATION_REACH = 20;
+    // How close the carpenter must be to a plank or module to repair it
+    private static readonly REPAIR_REACH = 80;
+    // Health the carpenter restores per frame (a little slower than the player)
+    private static readonly REPAIR_RATE = 0.1;
+    // Helmsman's tolerance (radians) before putting the rudder over
+    private static readonly HEADING_TOLERANCE = Math.PI / 36;
+    // Sail trim tolerance (degrees) before the sail handler rotates the sails
+    private static readonly TRIM_TOLERANCE = 2.5;
+    // Gunners only fire when the target is inside this fraction of their gun's range
+    private static readonly FIRING_RANGE_MARGIN = 1.1;
+    // The helmsman stands just aft of the wheel
+    private static readonly HELM_OFFSET = 25;
+
+    constructor(ship: Ship) {
+        this.ship = ship;
+        this.heading = ship.body.angle;
+    }
+
+    // Take on a new hand, who comes aboard at a world position
+    hire(worldX: number, worldY: number): CrewMember {
+        const safe = this.ship.findSafeDismountPosition(worldX, worldY);
+        const member = new CrewMember(this.ship, this.ship, safe.x, safe.y);
+        this.members.push(member);
+        return member;
+    }
+
+    // Give a hand a job. Gunners take the cannon nearest a ship-local point that nobody else is working.
+    assign(member: CrewMember, station: CrewStation, nearLocal: { x: number, y: number } = member.localPosition): void {
+        member.station = station;
+        member.cannonId = null;
+
+        if (station === CrewStation.GUNNER) {
+            member.cannonId = this.findFreeCannon(nearLocal);
+            if (member.cannonId === null) {
+                // Every gun already has a crew
+                member.station = CrewStation.IDLE;
+            }
+        } else if (station === CrewStation.HELM) {
+            // Hold whatever course we're on
+            this.holdCourse();
+        }
+    }
+
+    // Give a hand the next job in CREW_STATION_ORDER
+    assignNext(member: CrewMember, nearLocal: { x: number, y: number }): void {
+        const index = CREW_STATION_ORDER.indexOf(member.station);
+        this.assign(member, CREW_STATION_ORDER[(index + 1) % CREW_STATION_ORDER.length], nearLocal);
+    }
+
+    // The helmsman keeps the ship on its current heading from now on
+    holdCourse(): void {
+        this.heading = this.ship.body.angle;
+    }
+
+    // Nearest living hand to a ship-local point, within maxDistance
+    findNearest(localX: number, localY: number, maxDistance: number): CrewMember | null {
+        let nearest: CrewMember | null = null;
+        let nearestDistance = maxDistance;
+        for (const member of this.members) {
+            const distance = Math.hypot(member.localPosition.x - localX, member.localPosition.y - localY);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearest = member;
+            }
+        }
+        return nearest;
+    }
+
+    update(context: CrewContext): void {
+        this.members = this.members.filter(member => member.isAlive());
+
+        for (const member of this.members) {
+            member.update();
+
+            // Boarders come first
+            const enemy = this.findNearestOpponent(member, context.opponents);
+            if (enemy) {
+                if (!member.strike(enemy)) {
+                    member.walkToward(enemy.position.x, enemy.position.y);
+                }
+                continue;
+            }
+
+            switch (member.station) {
+                case CrewStation.HELM:
+                    this.workHelm(member, context);
+                    break;
+                case CrewStation.GUNNER:
+                    this.workGun(member, context);
+                    break;
+                case CrewStation.SAILS:
+                    this.workSails(member, context);
+                    break;
+                case CrewStation.CARPENTER:
+                    this.workRepairs(member, context);
+                    break;
+                case CrewStation.BAILER:
+                    this.workPump(member);
+                    break;
+                case CrewStation.IDLE:
+                    break;
+            }
+        }
+    }
+
+    // Everyone is lost with the ship
+    disband(): void {
+        this.members = [];
+    }
+
+    draw(ctx: CanvasRenderingContext2D): void {
+        this.members.forEach(member => member.draw(ctx));
+    }
+
+    private findNearestOpponent(member: CrewMember, opponents: CrewOpponent[]): CrewOpponent | null {
+        const position = member.position;
+        let nearest: CrewOpponent | null = null;
+        let nearestDistance = ShipCrew.DEFEND_RANGE;
+        for (const opponent of opponents) {
+            if (!opponent.isAlive()) continue;
+            const distance = Math.hypot(opponent.position.x - position.x, opponent.position.y - position.y);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearest = opponent;
+            }
+        }
+        return nearest;
+    }
+
+    // Walk to a ship-local spot. Returns true once close enough to work there.
+    private goTo(member: CrewMember, station: { x: number, y: number }): boolean {
+        const local = member.localPosition;
+        if (Math.hypot(local.x - station.x, local.y - station.y) < ShipCrew.STATION_REACH) {
+            return true;
+        }
+        const world = this.ship.localToWorld(station.x, station.y);
+        member.walkToward(world.x, world.y);
+        return false;
+    }
+
+    // Cannon nearest a ship-local point that has no gunner
+    private findFreeCannon(nearLocal: { x: number, y: number }): string | null {
+        const taken = new Set(this.members.map(member => member.cannonId));
+        let nearestId: string | null = null;
+        let nearestDistance = Infinity;
+        this.ship.cannons.forEach((cannon, id) => {
+            if (taken.has(id)) return;
+            const distance = Math.hypot(cannon.position.x - nearLocal.x, cannon.position.y - nearLocal.y);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearestId = id;
+            }
+        });
+        return nearestId;
+    }
+
+    // Hold the ordered course, unless the player or boarders have the wheel
+    private workHelm(member: CrewMember, context: CrewContext): void {
+        const wheel = this.ship.wheels.values().next().value;
+        if (!wheel) return;
+        if (!this.goTo(member, { x: wheel.position.x - ShipCrew.HELM_OFFSET, y: wheel.position.y })) return;
+        if (context.playerAtWheel || this.ship.isWheelSeized()) {
+            // The player has the helm, so follow whatever course they leave us on
+            this.holdCourse();
+            return;
+        }
+
+        let error = this.heading - this.ship.body.angle;
+        while (error > Math.PI) error -= Math.PI * 2;
+        while (error < -Math.PI) error += Math.PI * 2;
+
+        if (error > ShipCrew.HEADING_TOLERANCE) {
+            this.ship.applyRudder('right');
+        } else if (error < -ShipCrew.HEADING_TOLERANCE) {
+            this.ship.applyRudder('left');
+        } else {
+            this.ship.applyRudder('center');
+        }
+    }
+
+    // Lay the gun on the marked target and fire once it bears and is in range
+    private workGun(member: CrewMember, context: CrewContext): void {
+        const cannon = member.cannonId ? this.ship.cannons.get(member.cannonId) : undefined;
+        if (!cannon || !member.cannonId) {
+            member.station = CrewStation.IDLE;
+            return;
+        }
+        if (!this.goTo(member, cannon.getCrewPosition())) return;
+
+        // The player has taken over this gun, or it's in no state to fire
+        if (context.playerCannonId === member.cannonId || cannon.isDestroyed() || this.ship.isModuleSeized(member.cannonId)) return;
+
+        const target = context.target;
+        if (!target || target.isSunk()) return;
+
+        const leadPoint = layGun(this.ship, cannon, target);
+        const localLead = this.ship.worldToLocal(leadPoint.x, leadPoint.y);
+        const distance = Math.hypot(localLead.x - cannon.position.x, localLead.y - cannon.position.y);
+        const inRange = distance < cannon.getRange(this.ship.getSpeed()) * ShipCrew.FIRING_RANGE_MARGIN;
+
+        if (cannon.isLoaded && inRange && cannon.bearsOn(localLead.x, localLead.y) && cannon.isOnTarget()) {
+            this.ship.fireSingleCannon(member.cannonId);
+        }
+    }
+
+    // Turn the sails to whichever angle their efficiency calculation likes best for this wind
+    private workSails(member: CrewMember, context: CrewContext): void {
+        const sail: SailModule | undefined = this.ship.sails.values().next().value;
+        if (!sail) return;
+        // The sail handler works from beside the mainmast
+        if (!this.goTo(member, { x: sail.position.x, y: sail.position.y + 45 })) return;
+        // The player at the wheel works the sails themselves
+        if (context.playerAtWheel) return;
+
+        const ideal = ShipCrew.findBestSailAngle(sail, context.windDirection, this.ship.body.angle);
+        if (ideal - sail.angle > ShipCrew.TRIM_TOLERANCE) {
+            this.ship.rotateSails('right');
+        } else if (sail.angle - ideal > ShipCrew.TRIM_TOLERANCE) {
+            this.ship.rotateSails('left');
+        }
+    }
+
+    // Walk to the nearest damaged plank or module and patch it with wood from the stores
+    private workRepairs(member: CrewMember, context: CrewContext): void {
+        const local = member.localPosition;
+        const plankIndex = this.ship.findNearestDamagedPlank(local.x, local.y, Infinity);
+        const module = this.ship.findNearestDamagedModule(local.x, local.y, Infinity);
+
+        // Work on whichever is closer
+        const plank = plankIndex >= 0 ? this.ship.planks[plankIndex] : null;
+        const plankDistance = plank ? Math.hypot(plank.position.x - local.x, plank.position.y - local.y) : Infinity;
+        const moduleDistance = module ? Math.hypot(module.position.x - local.x, module.position.y - local.y) : Infinity;
+        const workOnModule = module !== null && moduleDistance < plankDistance;
+        const job = workOnModule ? module : plank;
+        if (!job) return;
+
+        if (Math.min(plankDistance, moduleDistance) > ShipCrew.REPAIR_REACH) {
+            const world = this.ship.localToWorld(job.position.x, job.position.y);
+            member.walkToward(world.x, world.y);
+            return;
+        }
+
+        // Never restore more health than the wood in the stores allows
+        const affordable = context.stores.wood / Ship.WOOD_PER_HEALTH;
+        if (affordable <= 0) return;
+
+        const amount = Math.min(ShipCrew.REPAIR_RATE, affordable);
+        const restored = workOnModule && module
+            ? module.repair(amount)
+            : this.ship.repairPlank(plankIndex, amount);
+        context.stores.wood -= restored * Ship.WOOD_PER_HEALTH;
+    }
+
+    // Work the bilge pump
+    private workPump(member: CrewMember): void {
+        if (this.ship.isNearPump(member.localPosition.x, member.localPosition.y)) {
+            this.ship.workPump();
+        } else {
+            const pump = this.ship.getPumpPosition();
+            const world = this.ship.localToWorld(pump.x, pump.y);
+            member.walkToward(world.x, world.y);
+        }
+    }
+
+    // Sail angle (degrees, within the sail's ±75° travel) that calculateEfficiency rates highest
+    private static findBestSailAngle(sail: SailModule, windDirection: number, shipAngle: number): number {
+        const currentAngle = sail.angle;
+        let bestAngle = currentAngle;
+        let bestEfficiency = -Infinity;
+
+        for (let angle = -75; angle <= 75; angle += 5) {
+            sail.angle = angle;
+            const efficiency = sail.calculateEfficiency(windDirection, shipAngle);
+            // Prefer the angle needing the least rotation when several are equally good
+            if (efficiency > bestEfficiency + 1e-6 ||
+                (Math.abs(efficiency - bestEfficiency) <= 1e-6 && Math.abs(angle - currentAngle) < Math.abs(bestAngle - currentAngle))) {
+                bestEfficiency = efficiency;
+                bestAngle = angle;
+            }
+        }
+
+        sail.angle = currentAngle;
+        return bestAngle;
+    }
+}
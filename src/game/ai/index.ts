@@ -0,0 +1,8 @@
+// Export all AI classes
+export * from './AICaptain';
+export * from './BehaviorStateMachine';
+export * from './NavigationPlanner';
+export * from './BoardingParty';
+export * from './Formation';
+export * from './Gunnery';
+export * from './ShipCrew';
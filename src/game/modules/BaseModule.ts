@@ -10,6 +10,8 @@ export class BaseModule {
     position: { x: number; y: number };
     rotation: number;
     health: number;
+    maxHealth: number;
+    destroyed: boolean = false; // Set when health reaches 0; cleared once fully rebuilt
     body?: Matter.Body;
 
     constructor(type: ModuleType, position: { x: number; y: number }, rotation: number = 0) {
@@ -17,6 +19,7 @@ export class BaseModule {
         this.position = { ...position };
         this.rotation = rotation;
         this.health = 100; // Default health
+        this.maxHealth = 100;
     }
 
     // Update method to be overridden by child classes
@@ -31,15 +34,55 @@ export class BaseModule {
 
     // Take damage
     takeDamage(amount: number): void {
+        if (this.destroyed) return; // Nothing left to break
+        
         this.health -= amount;
         if (this.health <= 0) {
             this.health = 0;
+            this.destroyed = true;
             this.onDestroy();
         }
     }
+    
+    // Restore health, returns how much was actually restored
+    // A destroyed module only works again once it has been rebuilt to full health
+    repair(amount: number): number {
+        const restored = Math.min(amount, this.maxHealth - this.health);
+        this.health += restored;
+        if (this.destroyed && this.health >= this.maxHealth) {
+            this.destroyed = false;
+            this.onRebuild();
+        }
+        return restored;
+    }
+    
+    isDestroyed(): boolean {
+        return this.destroyed;
+    }
 
     // Method called when the module is destroyed
     onDestroy(): void {
         // Base destroy logic
     }
+    
+    // Method called when a destroyed module has been rebuilt
+    onRebuild(): void {
+        // Base rebuild logic
+    }
+    
+    // Draw a small health bar above the module (in ship-local coordinates)
+    drawHealthBar(ctx: CanvasRenderingContext2D): void {
+        const width = 40;
+        const ratio = this.health / this.maxHealth;
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y - 30);
+        ctx.fillStyle = '#333333';
+        ctx.fillRect(-width / 2, 0, width, 5);
+        ctx.fillStyle = this.destroyed ? '#ff3333' : ratio > 0.5 ? '#00cc00' : '#ffcc00';
+        ctx.fillRect(-width / 2, 0, width * ratio, 5);
+        ctx.strokeStyle = this.destroyed ? '#ff3333' : '#000000';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(-width / 2, 0, width, 5);
+        ctx.restore();
+    }
 }
\ No newline at end of file
@@ -1,5 +1,12 @@
 // CannonModule.ts - Specialized class for ship cannons
 import { BaseModule } from './BaseModule';
+import { AmmoType } from '../../types';
+import { AMMO_STATS } from '../Ammunition';
+import Cannonball from '../Cannonball';
+import type Ship from '../Ship';
+
+// Side of the ship a cannon fires from
+export type Broadside = 'port' | 'starboard';
 
 export class CannonModule extends BaseModule {
     turretAngle: number = 0;
@@ -8,7 +15,24 @@ export class CannonModule extends BaseModule {
     reloadTime: number = 2000; // Reload time in milliseconds
     lastFiredTime: number = 0;
     isLoaded: boolean = true;
+    loadedAmmo: AmmoType = AmmoType.ROUND;   // What is currently in the barrel
+    selectedAmmo: AmmoType = AmmoType.ROUND; // What the crew will load on the next reload
     private game: any | null = null; // Reference to the game for creating cannonballs
+    private ship: Ship | null = null; // Ship this cannon is mounted on (owner of its cannonballs)
+    
+    // How far the turret can swing either side of straight out (45 degrees)
+    static readonly FIRING_ARC = Math.PI / 4;
+    
+    // Gunnery: range comes from barrel elevation and the size of the powder charge
+    elevation: number = Math.PI / 36; // Barrel elevation above horizontal (radians), 5 degrees by default
+    powderCharge: number = 1; // Multiplier on muzzle speed
+    static readonly BASE_MUZZLE_SPEED = 10;
+    static readonly MIN_ELEVATION = 0;
+    static readonly MAX_ELEVATION = Math.PI / 6; // 30 degrees
+    static readonly MIN_POWDER_CHARGE = 0.5;
+    static readonly MAX_POWDER_CHARGE = 1.5;
+    // Fraction of the ship's own speed added to the muzzle speed when firing
+    static readonly SHIP_SPEED_BONUS = 0.5;
 
     constructor(position: { x: number; y: number }, rotation: number = 0) {
         super('cannon', position, rotation);
@@ -17,6 +41,7 @@ export class CannonModule extends BaseModule {
         // If the passed reference is a Ship instance that has a game property
         if (game && game.game && typeof game.game.addCannonball === 'function') {
             this.game = game.game; // Store the actual game reference, not the ship
+            this.ship = game; // Remember the ship so its own cannonballs can't hit it
             console.log("Cannon set with game reference via ship");
         } else {
             this.game = game;
@@ -24,9 +49,11 @@ export class CannonModule extends BaseModule {
         }
     }// Update cannon state
     override update(): void {
-        // Check if cannon should reload
-        if (!this.isLoaded && Date.now() - this.lastFiredTime > this.reloadTime) {
+        // Check if cannon should reload (a wrecked gun can't be loaded)
+        if (!this.isLoaded && !this.destroyed && Date.now() - this.lastFiredTime > this.reloadTime) {
             this.isLoaded = true;
+            // Ammo changes only take effect when the cannon is reloaded
+            this.loadedAmmo = this.selectedAmmo;
         }
           // Gradually rotate cannon towards target angle
         if (this.turretAngle !== this.targetTurretAngle) {
@@ -74,8 +101,8 @@ export class CannonModule extends BaseModule {
         }
     }    // Fire the cannon at a specific target position
     fire(worldX: number, worldY: number, shipAngle: number, shipVelocity?: { x: number, y: number }): boolean {
-        // Only fire if loaded
-        if (!this.isLoaded) {
+        // Only fire if loaded and the gun is still in one piece
+        if (!this.isLoaded || this.destroyed) {
             return false;
         }
           
@@ -106,7 +133,7 @@ export class CannonModule extends BaseModule {
         }
         
         // Calculate additional speed from ship's momentum if provided
-        let finalSpeed = 10; // Base cannonball speed
+        let finalSpeed = CannonModule.BASE_MUZZLE_SPEED * this.powderCharge; // Base cannonball speed
         
         if (shipVelocity) {
             const shipSpeed = Math.sqrt(
@@ -114,11 +141,11 @@ export class CannonModule extends BaseModule {
                 shipVelocity.y * shipVelocity.y
             );
             // Add half of the ship's speed to the cannonball
-            finalSpeed += shipSpeed * 0.5;
+            finalSpeed += shipSpeed * CannonModule.SHIP_SPEED_BONUS;
         }
         
         // Create the cannonball through the game interface
-        this.game.addCannonball(spawnX, spawnY, firingAngle, finalSpeed);
+        this.game.addCannonball(spawnX, spawnY, firingAngle, finalSpeed, this.ship, this.loadedAmmo, this.elevation);
         
         // Debug log for successful firing
         console.log(`Cannon fired: Position (${spawnX.toFixed(1)}, ${spawnY.toFixed(1)}), Angle: ${firingAngle.toFixed(2)}, Speed: ${finalSpeed}`);
@@ -126,27 +153,9 @@ export class CannonModule extends BaseModule {
         return true;
     }// Aim the cannon at a specific world position
     aimAt(localTargetX: number, localTargetY: number): void {
-        // Calculate angle from cannon position to target point in local coordinates
-        const dx = localTargetX - this.position.x;
-        const dy = localTargetY - this.position.y;
-        
-        // Calculate the base angle from cannon to target
-        // Subtract PI/2 (90 degrees) to align with the visual plane coordinate system
-        let targetAngle = Math.atan2(dy, dx) + Math.PI/2 + this.rotation;
-        
-        
-        // The outward-facing direction is perpendicular to the ship at this cannon's position
-        // This is represented by the cannon's original rotation
-        // const outwardDirection = this.rotation;
-        
-        // // Calculate the difference between target angle and outward direction
-        // let angleDiff = targetAngle - outwardDirection;
-        
-        // // Normalize the angle difference to be within -PI to PI
-        while (targetAngle > Math.PI) targetAngle -= Math.PI * 2;
-        while (targetAngle < -Math.PI) targetAngle += Math.PI * 2;  
+        const targetAngle = this.getTurretAngleTo(localTargetX, localTargetY);
 
-        const validAngleRange = Math.PI / 4; // 45 degrees in radians
+        const validAngleRange = CannonModule.FIRING_ARC;
 
         if (targetAngle > validAngleRange) {
             this.targetTurretAngle = validAngleRange;
@@ -156,7 +165,120 @@ export class CannonModule extends BaseModule {
             this.targetTurretAngle = targetAngle;
         }
      
-    }    // Reset cannon angle to its default position
+    }
+    
+    // Whether the turret has finished swinging to where it was last aimed
+    isOnTarget(tolerance: number = 0.05): boolean {
+        let angleDiff = this.targetTurretAngle - this.turretAngle;
+        while (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
+        while (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
+        return Math.abs(angleDiff) <= tolerance;
+    }
+    
+    // Whether a ship-local point lies inside this cannon's firing arc
+    bearsOn(localTargetX: number, localTargetY: number): boolean {
+        return Math.abs(this.getTurretAngleTo(localTargetX, localTargetY)) <= CannonModule.FIRING_ARC;
+    }
+    
+    // Turret angle (relative to straight out, -π to π) that would point at a ship-local point
+    private getTurretAngleTo(localTargetX: number, localTargetY: number): number {
+        // Calculate angle from cannon position to target point in local coordinates
+        const dx = localTargetX - this.position.x;
+        const dy = localTargetY - this.position.y;
+        
+        // Calculate the base angle from cannon to target
+        // Add PI/2 (90 degrees) to align with the visual plane coordinate system
+        let targetAngle = Math.atan2(dy, dx) + Math.PI/2 + this.rotation;
+        
+        // Normalize the angle to be within -PI to PI
+        while (targetAngle > Math.PI) targetAngle -= Math.PI * 2;
+        while (targetAngle < -Math.PI) targetAngle += Math.PI * 2;
+        
+        return targetAngle;
+    }
+    
+    // Speed the loaded shot leaves the barrel at, including the bonus fire() adds for the ship's own speed
+    getMuzzleSpeed(shipSpeed: number = 0): number {
+        const baseSpeed = CannonModule.BASE_MUZZLE_SPEED * this.powderCharge + shipSpeed * CannonModule.SHIP_SPEED_BONUS;
+        return baseSpeed * AMMO_STATS[this.loadedAmmo].speedMultiplier;
+    }
+    
+    // Speed the shot covers ground at (per frame) at the current elevation
+    getHorizontalShotSpeed(shipSpeed: number = 0): number {
+        return this.getMuzzleSpeed(shipSpeed) * Math.cos(this.elevation);
+    }
+    
+    // Distance the loaded shot will carry at the current elevation and charge
+    getRange(shipSpeed: number = 0): number {
+        return Cannonball.predictRange(this.getMuzzleSpeed(shipSpeed), this.elevation);
+    }
+    
+    // Longest shot possible with the current charge (at maximum elevation)
+    getMaxRange(shipSpeed: number = 0): number {
+        return Cannonball.predictRange(this.getMuzzleSpeed(shipSpeed), CannonModule.MAX_ELEVATION);
+    }
+    
+    // Set the barrel elevation directly, within the carriage's limits
+    setElevation(elevation: number): void {
+        this.elevation = Math.max(CannonModule.MIN_ELEVATION, Math.min(CannonModule.MAX_ELEVATION, elevation));
+    }
+    
+    // Pick the elevation whose shot lands closest to the given distance
+    // Range grows steadily with elevation up to 45°, so a binary search is enough
+    setElevationForRange(distance: number, shipSpeed: number = 0): void {
+        let low = CannonModule.MIN_ELEVATION;
+        let high = CannonModule.MAX_ELEVATION;
+        const speed = this.getMuzzleSpeed(shipSpeed);
+        
+        for (let i = 0; i < 20; i++) {
+            const mid = (low + high) / 2;
+            if (Cannonball.predictRange(speed, mid) < distance) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+        
+        this.elevation = (low + high) / 2;
+    }
+    
+    // Change the powder charge used for the next shots
+    setPowderCharge(charge: number): void {
+        this.powderCharge = Math.max(CannonModule.MIN_POWDER_CHARGE, Math.min(CannonModule.MAX_POWDER_CHARGE, charge));
+    }
+    
+    // A wrecked gun loses whatever was in the barrel
+    override onDestroy(): void {
+        this.isLoaded = false;
+    }
+    
+    // A rebuilt gun still has to be loaded before it can fire
+    override onRebuild(): void {
+        this.isLoaded = false;
+        this.lastFiredTime = Date.now();
+    }
+    
+    // Ship-local spot where the gunner stands, just inboard of the carriage
+    getCrewPosition(): { x: number, y: number } {
+        const crewOffset = 30;
+        return {
+            x: this.position.x - Math.sin(this.rotation) * crewOffset,
+            y: this.position.y + Math.cos(this.rotation) * crewOffset
+        };
+    }
+    
+    // Choose the ammo to load on the next reload
+    selectAmmo(ammo: AmmoType): void {
+        this.selectedAmmo = ammo;
+    }
+    
+    // Which side of the ship this cannon fires from
+    // Cannons with rotation 0 face outward to port (negative local y), rotation π to starboard
+    getBroadside(): Broadside {
+        return Math.cos(this.rotation) > 0 ? 'port' : 'starboard';
+    }
+    
+    // Reset cannon angle to its default position
     resetAim(): void {
         // Default position is aligned with the cannon's base orientation
         // PI (180°) makes the turret point directly outward from the ship
@@ -175,8 +297,8 @@ export class CannonModule extends BaseModule {
         ctx.save();
         ctx.translate(this.position.x, this.position.y);
         ctx.rotate(this.rotation);
-        // Draw cannon base
-        ctx.fillStyle = '#8B4513';
+        // Draw cannon base (charred when the gun has been wrecked)
+        ctx.fillStyle = this.destroyed ? '#3b2a1a' : '#8B4513';
         ctx.strokeStyle = '#000000';
         ctx.lineWidth = 2;
         ctx.fillRect(-15, -10, 30, 20);
@@ -189,9 +311,9 @@ export class CannonModule extends BaseModule {
         ctx.beginPath();
         ctx.arc(10, 10, 5, 0, Math.PI * 2);
         ctx.fill();
-        // Draw turret (barrel)
+        // Draw turret (barrel), knocked askew off its carriage when wrecked
         ctx.save();
-        ctx.rotate(this.turretAngle);
+        ctx.rotate(this.destroyed ? this.turretAngle + 0.6 : this.turretAngle);
         ctx.fillStyle = '#333333';
         ctx.beginPath();
         ctx.moveTo(-8, 0);
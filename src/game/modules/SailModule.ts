@@ -4,6 +4,7 @@ import { BaseModule } from './BaseModule';
 export class SailModule extends BaseModule {
     openness: number = 0; // How open the sail is (0-100%)
     angle: number = 0;    // Angle of the sail relative to the mast (-75 to +75 degrees)
+    clothColor: string = 'rgba(255,255,255,0.8)'; // Sailcloth, dyed in the colours of the ship's faction
     
     constructor(position: { x: number; y: number }) {
         super('sail', position, 0); // Sails don't have a rotation property in the same way as cannons
@@ -11,8 +12,18 @@ export class SailModule extends BaseModule {
     
     // Set the sail openness
     setOpenness(percent: number): void {
-        // Ensure the value is between 0 and 100
-        this.openness = Math.max(0, Math.min(100, percent));
+        // A destroyed sail hangs in rags and can't be set at all
+        if (this.destroyed) {
+            this.openness = 0;
+            return;
+        }
+        // Ensure the value is between 0 and 100, and no wider than what's left of the cloth allows
+        this.openness = Math.max(0, Math.min(this.getMaxOpenness(), percent));
+    }
+    
+    // How wide the sail can be set: a torn sail only spreads as far as its remaining health
+    getMaxOpenness(): number {
+        return 100 * this.health / this.maxHealth;
     }
     
     // Gradually open the sail by an increment
@@ -25,6 +36,12 @@ export class SailModule extends BaseModule {
         this.setOpenness(this.openness - increment);
     }
     
+    // Tear the sail (chain shot): loses health, so it can't be set as wide until it is repaired
+    shred(amount: number): void {
+        this.takeDamage(amount);
+        this.setOpenness(this.openness);
+    }
+    
     // Rotate the sail by a certain amount
     rotate(degrees: number): void {
         // Limit the sail angle to -75 to +75 degrees
@@ -86,6 +103,11 @@ export class SailModule extends BaseModule {
         // Update sail state if needed
     }
     
+    // A destroyed sail catches no wind
+    override onDestroy(): void {
+        this.openness = 0;
+    }
+    
     override use(): void {
         // Toggle sail state (e.g., start opening/closing)
     }
@@ -100,8 +122,29 @@ export class SailModule extends BaseModule {
         ctx.lineWidth = 4;
         ctx.fill();
         ctx.stroke();
+        // A destroyed sail is drawn as torn strips hanging from the yard
+        if (this.destroyed) {
+            ctx.save();
+            ctx.rotate(this.angle * Math.PI / 180);
+            ctx.fillStyle = 'rgba(220,220,220,0.7)';
+            ctx.strokeStyle = '#000000';
+            ctx.lineWidth = 1;
+            const strips = [-110, -60, -15, 40, 95];
+            strips.forEach((y, index) => {
+                const length = 12 + (index % 2) * 10;
+                ctx.beginPath();
+                ctx.moveTo(0, y - 8);
+                ctx.lineTo(length, y - 3);
+                ctx.lineTo(length - 5, y + 2);
+                ctx.lineTo(0, y + 8);
+                ctx.closePath();
+                ctx.fill();
+                ctx.stroke();
+            });
+            ctx.restore();
+        }
         // Draw sail only if open
-        if (this.openness > 0) {
+        else if (this.openness > 0) {
             ctx.save();
             ctx.rotate(this.angle * Math.PI / 180);
             ctx.beginPath();
@@ -109,7 +152,7 @@ export class SailModule extends BaseModule {
             const curveAmount = 10 + this.openness * 0.9;
             ctx.quadraticCurveTo(curveAmount, 0, 0, -130);
             ctx.closePath();
-            ctx.fillStyle = 'rgba(255,255,255,0.8)';
+            ctx.fillStyle = this.clothColor;
             ctx.strokeStyle = '#000000';
             ctx.lineWidth = 2;
             ctx.fill();
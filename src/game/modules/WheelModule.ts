@@ -57,6 +57,16 @@ export class WheelModule extends BaseModule {
         ctx.arc(0, 0, 15, 0, Math.PI * 2);
         ctx.fillStyle = '#654321';
         ctx.fill();
+        // A smashed wheel has a broken spoke ring
+        if (this.destroyed) {
+            ctx.strokeStyle = '#222222';
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.moveTo(-12, -10);
+            ctx.lineTo(4, 2);
+            ctx.lineTo(-2, 12);
+            ctx.stroke();
+        }
         ctx.restore();
     }
     
@@ -1,7 +1,9 @@
-// This file is the entry point of the game. It initializes the game loop and sets up the Matter.js engine.
+// This file is the entry point of the game. It initializes the game loop and sets up the physics world.
 
-import Matter from 'matter-js';
 import { Game } from './game/Game';
+import { PhysicsManager } from './physics/PhysicsManager';
+import { parseDifficulty } from './game/Archetypes';
+import { parseSeed } from './utils/helpers';
 
 // Canvas setup
 const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
@@ -10,11 +12,14 @@ const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
 canvas.width = window.innerWidth;
 canvas.height = window.innerHeight;
 
-// Initialize physics and game with zero gravity for top-down perspective
-const engine = Matter.Engine.create({ 
-    gravity: { x: 0, y: 0, scale: 0 } // No gravity for top-down view
-});
-const game = new Game(engine);
+// Initialize the physics world (zero gravity for the top-down perspective) that every entity is registered with
+const physics = new PhysicsManager();
+// Difficulty and world seed come from the page URL, e.g. index.html?difficulty=hard&seed=1234.
+// The same seed always gives the same islands, wind and ships; without one the world is random.
+const params = new URLSearchParams(window.location.search);
+const difficulty = parseDifficulty(params.get('difficulty'));
+const seed = parseSeed(params.get('seed')) ?? undefined;
+const game = new Game(physics, difficulty, seed);
 
 // Listen for window resize events to adjust canvas
 window.addEventListener('resize', () => {
@@ -1,25 +1,139 @@
 import Matter from 'matter-js';
+import Player from '../game/Player';
+import Ship from '../game/Ship';
+import Cannonball from '../game/Cannonball';
+import { Island } from '../game/World';
 
+// Every kind of body in the physics world
+export type BodyKind = 'terrain' | 'player' | 'ship' | 'cannonball' | 'plank';
+
+// The game object behind each kind of body, as handed to collision callbacks
+export interface BodyEntities {
+    terrain: Island;
+    player: Player;
+    ship: Ship;
+    cannonball: Cannonball;
+    plank: Ship;            // The ship the plank belongs to
+}
+
+// Collision category bits, one per kind of body. Terrain uses Matter's default category.
+export const COLLISION_CATEGORIES: Record<BodyKind, number> = {
+    terrain: 0x0001,
+    player: 0x0002,
+    ship: 0x0004,
+    cannonball: 0x0008,
+    plank: 0x0010
+};
+
+// What each kind of body can collide with. Two bodies only touch if each lists the other.
+export const COLLIDES_WITH: Record<BodyKind, BodyKind[]> = {
+    terrain: ['player', 'ship', 'cannonball'],
+    player: ['terrain'],                          // Swimmers are kept out of islands, but walk through hulls
+    ship: ['terrain', 'ship', 'cannonball'],      // Ships run aground and ram each other
+    cannonball: ['terrain', 'ship', 'plank'],     // Shots are sensors, so these are hits rather than bounces
+    plank: ['cannonball']                         // Plank sensors only need to detect cannonballs
+};
+
+// 'start' fires on the first frame two bodies touch, 'active' on every frame after that
+export type CollisionPhase = 'start' | 'active';
+
+// Called with the two entities in the order the kinds were given to onCollision, the pair, and each side's body
+export type CollisionHandler<A extends BodyKind, B extends BodyKind> =
+    (a: BodyEntities[A], b: BodyEntities[B], pair: Matter.Pair, bodyA: Matter.Body, bodyB: Matter.Body) => void;
+
+type AnyEntity = BodyEntities[BodyKind];
+
+interface Registration {
+    kind: BodyKind;
+    entity: AnyEntity;
+}
+
+interface HandlerEntry {
+    kindA: BodyKind;
+    kindB: BodyKind;
+    phase: CollisionPhase;
+    handle: (a: AnyEntity, b: AnyEntity, pair: Matter.Pair, bodyA: Matter.Body, bodyB: Matter.Body) => void;
+}
+
+// Owns the one physics world everything lives in. Bodies are registered as a kind of entity,
+// which sets their collision filter, and collisions are passed to handlers for each pair of kinds.
 export class PhysicsManager {
     private engine: Matter.Engine;
+    private registry = new Map<number, Registration>(); // By body id
+    private handlers: HandlerEntry[] = [];
+
+    static readonly TIME_STEP = 1000 / 60; // Milliseconds simulated by each step of the world
 
     constructor(engine?: Matter.Engine) {
-        this.engine = engine || Matter.Engine.create();
+        // No gravity for the top-down view
+        this.engine = engine || Matter.Engine.create({ gravity: { x: 0, y: 0, scale: 0 } });
+
+        Matter.Events.on(this.engine, 'collisionStart', (event) => this.dispatch('start', event.pairs));
+        Matter.Events.on(this.engine, 'collisionActive', (event) => this.dispatch('active', event.pairs));
     }
 
-    public update(deltaTime: number): void {
+    public update(deltaTime: number = PhysicsManager.TIME_STEP): void {
         Matter.Engine.update(this.engine, deltaTime);
     }
 
-    public addBody(body: Matter.Body): void {
-        Matter.World.add(this.engine.world, body);
+    // Add bodies to the world as a kind of entity, giving them that kind's collision filter
+    // (any collision group already set is kept)
+    public register<K extends BodyKind>(kind: K, bodies: Matter.Body | Matter.Body[], entity: BodyEntities[K]): void {
+        const list = Array.isArray(bodies) ? bodies : [bodies];
+        const mask = COLLIDES_WITH[kind].reduce((bits, other) => bits | COLLISION_CATEGORIES[other], 0);
+
+        for (const body of list) {
+            Matter.Body.set(body, {
+                collisionFilter: {
+                    ...body.collisionFilter,
+                    category: COLLISION_CATEGORIES[kind],
+                    mask
+                }
+            });
+            this.registry.set(body.id, { kind, entity });
+        }
+        Matter.World.add(this.engine.world, list);
     }
 
     public removeBody(body: Matter.Body): void {
+        this.registry.delete(body.id);
         Matter.World.remove(this.engine.world, body);
     }
 
+    // Call a handler whenever a body of one kind touches a body of another. When both kinds are
+    // the same the handler is called both ways round, so each side gets its turn.
+    public onCollision<A extends BodyKind, B extends BodyKind>(kindA: A, kindB: B, handler: CollisionHandler<A, B>, phase: CollisionPhase = 'start'): void {
+        this.handlers.push({
+            kindA,
+            kindB,
+            phase,
+            handle: (a, b, pair, bodyA, bodyB) => handler(a as BodyEntities[A], b as BodyEntities[B], pair, bodyA, bodyB)
+        });
+    }
+
     public getEngine(): Matter.Engine {
         return this.engine;
     }
-}
\ No newline at end of file
+
+    private dispatch(phase: CollisionPhase, pairs: Matter.Pair[]): void {
+        for (const pair of pairs) {
+            // Compound bodies report their parts, so always resolve to the parent body
+            const bodyA = pair.bodyA.parent || pair.bodyA;
+            const bodyB = pair.bodyB.parent || pair.bodyB;
+            const first = this.registry.get(bodyA.id);
+            const second = this.registry.get(bodyB.id);
+            if (!first || !second) continue;
+
+            for (const entry of this.handlers) {
+                if (entry.phase !== phase) continue;
+
+                if (entry.kindA === first.kind && entry.kindB === second.kind) {
+                    entry.handle(first.entity, second.entity, pair, bodyA, bodyB);
+                }
+                if (entry.kindA === second.kind && entry.kindB === first.kind) {
+                    entry.handle(second.entity, first.entity, pair, bodyB, bodyA);
+                }
+            }
+        }
+    }
+}
@@ -51,6 +51,14 @@ export enum ModuleType {
     PLANK = 'plank'
 }
 
+// Ammunition a cannon can be loaded with
+export enum AmmoType {
+    ROUND = 'round',   // Solid shot for smashing hull planks
+    CHAIN = 'chain',   // Linked shot that shreds sails
+    GRAPE = 'grape',   // Short-range scatter shot against crew on deck
+    HEATED = 'heated'  // Red-hot shot that sets planks on fire
+}
+
 // Wind data structure
 export interface Wind {
     direction: number; // In radians
@@ -72,6 +80,12 @@ export interface PlayerSkills {
     combat: number;
 }
 
+// Resources carried by the player
+export interface Inventory {
+    wood: number; // Used to repair ship planks
+    gold: number; // Salvaged from loot crates
+}
+
 // Weapon types
 export enum WeaponType {
     NONE = 'none',
@@ -97,6 +111,34 @@ export enum AIBehavior {
     FLEEING = 'fleeing'
 }
 
+// Sides a ship can sail for
+export enum Faction {
+    PLAYER = 'player',       // The player's ship and escorts
+    NAVY = 'navy',           // Crown patrols hunting pirates
+    PIRATES = 'pirates',     // Raiders who prey on everyone
+    MERCHANTS = 'merchants', // Traders working the island routes
+    NATIVES = 'natives'      // Islanders defending their waters
+}
+
+// Jobs a hired crew member can be given aboard ship
+export enum CrewStation {
+    IDLE = 'idle',
+    HELM = 'helm',           // Holds the ship's course
+    GUNNER = 'gunner',       // Works one cannon, firing at the marked target
+    SAILS = 'sails',         // Keeps the sails trimmed to the wind
+    CARPENTER = 'carpenter', // Patches damaged planks and modules
+    BAILER = 'bailer'        // Works the bilge pump
+}
+
+// Stages a ship goes through as it floods and sinks
+export enum SinkingStage {
+    AFLOAT = 'afloat',
+    TAKING_WATER = 'taking_water',
+    CRITICAL = 'critical',
+    SINKING = 'sinking',
+    SUNK = 'sunk'
+}
+
 export interface Enemy {
     position: { x: number; y: number };
     health: number;
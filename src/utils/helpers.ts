@@ -1,7 +1,8 @@
 import Matter from 'matter-js';
 
-export function randomInRange(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+// `random` can be a seeded generator from createRandom, for results that repeat
+export function randomInRange(min: number, max: number, random: () => number = Math.random): number {
+    return random() * (max - min) + min;
 }
 
 export function isColliding(bodyA: Matter.Body, bodyB: Matter.Body): boolean {
@@ -14,4 +15,50 @@ export function degreesToRadians(degrees: number): number {
 
 export function radiansToDegrees(radians: number): number {
     return radians * (180 / Math.PI);
-}
\ No newline at end of file
+}
+
+// Seedable pseudo-random generator (mulberry32) returning values in [0, 1), like Math.random
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Hash text to a 32-bit number (FNV-1a), e.g. to turn a word into a seed
+export function hashString(text: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// Read a seed from text (e.g. the page URL): whole numbers are used as they are, anything else is hashed.
+// Returns null when there is no seed.
+export function parseSeed(value: string | null): number | null {
+    const text = value?.trim() ?? '';
+    if (text === '') return null;
+    return /^\d+$/.test(text) ? Number(text) >>> 0 : hashString(text);
+}
+
+// Smooth 1D value noise in [-1, 1] over t in [0, 1) that wraps around, so a closed outline
+// built from it joins up. `points` is how many random values are interpolated between (more = bumpier).
+export function createLoopingNoise(random: () => number, points: number): (t: number) => number {
+    const values = Array.from({ length: points }, () => random() * 2 - 1);
+    return (t: number) => {
+        const position = ((t % 1) + 1) % 1 * points;
+        const index = Math.floor(position);
+        const fraction = position - index;
+        // Smoothstep between neighbouring values
+        const blend = fraction * fraction * (3 - 2 * fraction);
+        const a = values[index % points];
+        const b = values[(index + 1) % points];
+        return a + (b - a) * blend;
+    };
+}